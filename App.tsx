@@ -1,21 +1,31 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import ChatInterface from './components/ChatInterface';
 import KnowledgeBase from './components/KnowledgeBase';
 import ProfileEditor from './components/ProfileEditor';
 import InfoModal from './components/InfoModal';
-import { UserProfile, Document, Message, DocumentChunk, AIProvider, ChatSession, GroqModel } from './types';
+import { UserProfile, Document, Message, DocumentIndexState, AIProvider, ChatSession, ConversationSummary, ProviderSettings, EmbeddingConfig, ReindexJob, RetrievalSettings, ChunkerSettings } from './types';
 import { storageService } from './services/storageService';
+import { messageTree } from './services/messageTree';
+import { providerRegistry } from './services/providerRegistry';
+import { embeddingService } from './services/embeddingService';
+import { indexingService } from './services/indexingService';
+import { chunkingService } from './services/chunkingService';
+import { vectorIndexService } from './services/vectorIndexService';
+import { ingestionService } from './services/ingestionService';
+import { retrievalService } from './services/retrievalService';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'chat' | 'knowledge' | 'profile'>('chat');
   const [profile, setProfile] = useState<UserProfile>(storageService.getProfile());
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [chunks, setChunks] = useState<DocumentChunk[]>([]);
+  const [indexStates, setIndexStates] = useState<Record<string, DocumentIndexState>>({});
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string | null>(localStorage.getItem('vora_active_chat'));
   const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
 
@@ -23,14 +33,33 @@ const App: React.FC = () => {
     (localStorage.getItem('vora_theme') as 'light' | 'dark') || 'dark'
   );
 
-  const [provider, setProvider] = useState<AIProvider>(
-    (localStorage.getItem('vora_provider') as AIProvider) || 'groq'
-  );
+  const [provider, setProvider] = useState<AIProvider>(() => {
+    const saved = localStorage.getItem('vora_provider');
+    return providerRegistry.has(saved) ? saved : providerRegistry.getDefaultId();
+  });
+
+  const [providerModels, setProviderModels] = useState<Record<AIProvider, string>>(() => {
+    const saved = storageService.getProviderModels();
+    if (saved) return saved;
+    // Carry over the model picked before per-provider selection existed
+    const legacyGroqModel = localStorage.getItem('vora_groq_model');
+    return legacyGroqModel ? { groq: legacyGroqModel } : {};
+  });
 
-  const [groqModel, setGroqModel] = useState<GroqModel>(
-    (localStorage.getItem('vora_groq_model') as GroqModel) || 'llama-3.3-70b-versatile'
+  const [providerSettings, setProviderSettings] = useState<Record<AIProvider, ProviderSettings>>(
+    () => storageService.getProviderSettings() || {}
   );
 
+  const [embeddingConfig, setEmbeddingConfig] = useState<EmbeddingConfig>(embeddingService.getConfig());
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(retrievalService.getSettings());
+  const [chunkerSettings, setChunkerSettings] = useState<ChunkerSettings>(chunkingService.getSettings());
+
+  const [reindexJob, setReindexJob] = useState<ReindexJob | null>(storageService.getReindexJob());
+  const [reindexProgress, setReindexProgress] = useState('');
+  const [reindexError, setReindexError] = useState<string | null>(null);
+  const isReindexingRef = useRef(false);
+  const hasCheckedResumeRef = useRef(false);
+
   const [useWebSearch, setUseWebSearch] = useState<boolean>(
     localStorage.getItem('vora_use_web_search') === 'true'
   );
@@ -39,22 +68,28 @@ const App: React.FC = () => {
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [docs, storedChunks, storedSessions] = await Promise.all([
+        vectorIndexService.warmUp();
+        const [docs, storedIndexStates, storedSessions] = await Promise.all([
           storageService.getDocuments(),
-          storageService.getChunks(),
+          indexingService.loadIndexStates(),
           storageService.getChatSessions()
         ]);
 
         const validSessions = (storedSessions || []).filter(s => s && s.id && Array.isArray(s.messages));
 
         setDocuments(docs || []);
-        setChunks(storedChunks || []);
+        setIndexStates(storedIndexStates);
         setSessions(validSessions);
 
+        // Databases created before the BM25 index existed are backfilled once
+        storageService.ensureKeywordIndex().catch(err => console.error("Failed to build keyword index:", err));
+        // Imports interrupted by a reload carry on where they stopped
+        ingestionService.resume();
+
         if (currentChatId) {
           const session = await storageService.getChatSession(currentChatId);
           if (session && Array.isArray(session.messages)) {
-            setMessages(session.messages);
+            openSession(session);
           } else {
             setCurrentChatId(null);
             setMessages([]);
@@ -70,6 +105,15 @@ const App: React.FC = () => {
     loadData();
   }, []);
 
+  // Documents finished by the import queue join the Memory Bank wherever the user is in the app
+  useEffect(() => ingestionService.subscribe({
+    onIndexed: (doc, chunks) => {
+      vectorIndexService.upsertDocument(doc.id, chunks).catch(err => console.error("Failed to index vectors:", err));
+      setDocuments(prev => [doc, ...prev.filter(d => d.id !== doc.id)]);
+      setIndexStates(prev => ({ ...prev, [doc.id]: indexingService.describeChunks(chunks) }));
+    }
+  }), []);
+
   // Save theme
   useEffect(() => {
     localStorage.setItem('vora_theme', theme);
@@ -85,6 +129,8 @@ const App: React.FC = () => {
         id: currentChatId,
         title,
         messages,
+        activeLeafId,
+        summary: summary || undefined,
         updatedAt: Date.now()
       };
 
@@ -95,15 +141,31 @@ const App: React.FC = () => {
         });
       }).catch(err => console.error("Failed to save session:", err));
     }
-  }, [messages, currentChatId]);
+  }, [messages, currentChatId, activeLeafId, summary]);
 
   useEffect(() => {
     localStorage.setItem('vora_provider', provider);
   }, [provider]);
 
   useEffect(() => {
-    localStorage.setItem('vora_groq_model', groqModel);
-  }, [groqModel]);
+    storageService.saveProviderModels(providerModels);
+  }, [providerModels]);
+
+  useEffect(() => {
+    storageService.saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    storageService.saveEmbeddingConfig(embeddingConfig);
+  }, [embeddingConfig]);
+
+  useEffect(() => {
+    storageService.saveRetrievalSettings(retrievalSettings);
+  }, [retrievalSettings]);
+
+  useEffect(() => {
+    storageService.saveChunkerSettings(chunkerSettings);
+  }, [chunkerSettings]);
 
   useEffect(() => {
     localStorage.setItem('vora_use_web_search', useWebSearch.toString());
@@ -117,9 +179,86 @@ const App: React.FC = () => {
     }
   }, [currentChatId]);
 
+  const staleDocIds = useMemo(
+    () => indexingService.findStaleDocIds(documents, indexStates, embeddingConfig, chunkerSettings),
+    [documents, indexStates, embeddingConfig, chunkerSettings]
+  );
+
+  const runReindex = async (docIds: string[]) => {
+    if (isReindexingRef.current || docIds.length === 0) return;
+    isReindexingRef.current = true;
+    setReindexError(null);
+
+    const config = embeddingConfig;
+    const chunker = chunkerSettings;
+    let job: ReindexJob = {
+      embeddingModel: embeddingService.getModelKey(config),
+      chunkerVersion: chunkingService.getVersion(chunker),
+      pendingDocIds: docIds,
+      total: docIds.length
+    };
+    storageService.saveReindexJob(job);
+    setReindexJob(job);
+
+    try {
+      while (job.pendingDocIds.length > 0) {
+        const [docId, ...rest] = job.pendingDocIds;
+        const doc = documents.find(d => d.id === docId);
+        // Deleted mid-run: nothing to rebuild
+        if (doc) {
+          const position = job.total - job.pendingDocIds.length + 1;
+          const newChunks = await indexingService.buildChunks(doc, config, chunker, (done, total) => {
+            setReindexProgress(`${position}/${job.total} · ${doc.title} (${done}/${total})`);
+          });
+          await storageService.replaceDocumentChunks(doc.id, newChunks);
+          await vectorIndexService.upsertDocument(doc.id, newChunks);
+          setIndexStates(prev => ({ ...prev, [doc.id]: indexingService.describeChunks(newChunks) }));
+        }
+
+        job = { ...job, pendingDocIds: rest };
+        storageService.saveReindexJob(job.pendingDocIds.length > 0 ? job : null);
+        setReindexJob(job.pendingDocIds.length > 0 ? job : null);
+      }
+    } catch (err: any) {
+      // The job stays persisted so the remaining documents can be resumed later
+      console.error("Re-indexing paused:", err);
+      setReindexError(err.message || 'Re-indexing failed');
+    } finally {
+      isReindexingRef.current = false;
+      setReindexProgress('');
+    }
+  };
+
+  // Resume an interrupted re-index once the Memory Bank has loaded
+  useEffect(() => {
+    if (hasCheckedResumeRef.current || documents.length === 0 || Object.keys(indexStates).length === 0) return;
+    hasCheckedResumeRef.current = true;
+
+    const savedJob = storageService.getReindexJob();
+    if (!savedJob) return;
+
+    const targetsCurrentConfig = savedJob.embeddingModel === embeddingService.getModelKey(embeddingConfig)
+      && savedJob.chunkerVersion === chunkingService.getVersion(chunkerSettings);
+    if (targetsCurrentConfig && staleDocIds.length > 0) {
+      runReindex(staleDocIds);
+    } else {
+      storageService.saveReindexJob(null);
+      setReindexJob(null);
+    }
+  }, [documents, indexStates]);
+
+  const openSession = (session: ChatSession) => {
+    const normalized = messageTree.normalize(session.messages);
+    setMessages(normalized);
+    setActiveLeafId(session.activeLeafId || normalized[normalized.length - 1]?.id || null);
+    setSummary(session.summary || null);
+  };
+
   const handleNewChat = () => {
     setCurrentChatId(null);
     setMessages([]);
+    setActiveLeafId(null);
+    setSummary(null);
     setActiveTab('chat');
     setIsSidebarOpen(false);
   };
@@ -129,7 +268,7 @@ const App: React.FC = () => {
       const session = await storageService.getChatSession(id);
       if (session && Array.isArray(session.messages)) {
         setCurrentChatId(id);
-        setMessages(session.messages);
+        openSession(session);
       } else {
         alert("This conversation data is corrupted or missing.");
         handleDeleteSession(id);
@@ -157,22 +296,32 @@ const App: React.FC = () => {
       id: newId,
       title: firstMsg.content.slice(0, 30) + '...',
       messages: [firstMsg],
+      activeLeafId: firstMsg.id,
       updatedAt: Date.now()
     };
     setCurrentChatId(newId);
     setMessages([firstMsg]);
+    setActiveLeafId(firstMsg.id);
     storageService.saveChatSession(newSession).then(() => {
       storageService.getChatSessions().then(setSessions);
     });
   };
 
-  const isGeminiMissing = () => !process.env.API_KEY;
-  const isChatProviderMissing = () => {
-    if (provider === 'gemini') return isGeminiMissing();
-    if (provider === 'groq') return !process.env.GROQ_API_KEY;
-    return false;
+  const setProviderModel = (providerId: AIProvider, modelId: string) => {
+    setProviderModels(prev => ({ ...prev, [providerId]: modelId }));
+  };
+
+  const setProviderSetting = (providerId: AIProvider, key: string, value: string) => {
+    setProviderSettings(prev => ({ ...prev, [providerId]: { ...prev[providerId], [key]: value } }));
   };
 
+  const activeProvider = providerRegistry.get(provider);
+  const activeModel = providerModels[activeProvider.id] || activeProvider.defaultModel;
+  const activeSettings = providerSettings[activeProvider.id] || {};
+
+  const isEmbedderMissing = () => !embeddingService.isConfigured(embeddingConfig);
+  const isChatProviderMissing = () => !activeProvider.isConfigured(activeSettings);
+
   return (
     <div className={`fixed inset-0 flex overflow-hidden antialiased ${theme === 'dark' ? 'dark-theme' : 'light-theme'}`}>
       {isSidebarOpen && (
@@ -207,11 +356,17 @@ const App: React.FC = () => {
           <ChatInterface
             messages={messages}
             setMessages={setMessages}
+            activeLeafId={activeLeafId}
+            setActiveLeafId={setActiveLeafId}
+            summary={summary}
+            setSummary={setSummary}
             profile={profile}
             documents={documents}
-            cachedChunks={chunks}
-            provider={provider}
-            groqModel={groqModel}
+            embeddingConfig={embeddingConfig}
+            retrievalSettings={retrievalSettings}
+            provider={activeProvider}
+            model={activeModel}
+            providerSettings={activeSettings}
             toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
             currentChatId={currentChatId}
             onFirstMessage={handleFirstMessageSent}
@@ -232,7 +387,7 @@ const App: React.FC = () => {
               <KnowledgeBase
                 documents={documents}
                 setDocuments={setDocuments}
-                setChunks={setChunks}
+                setIndexStates={setIndexStates}
                 provider={provider}
               />
             </div>
@@ -262,21 +417,50 @@ const App: React.FC = () => {
         onClose={() => setIsInfoModalOpen(false)}
         provider={provider}
         setProvider={setProvider}
-        groqModel={groqModel}
-        setGroqModel={setGroqModel}
+        providerModels={providerModels}
+        setProviderModel={setProviderModel}
+        providerSettings={providerSettings}
+        setProviderSetting={setProviderSetting}
+        embeddingConfig={embeddingConfig}
+        setEmbeddingConfig={setEmbeddingConfig}
+        retrievalSettings={retrievalSettings}
+        setRetrievalSettings={setRetrievalSettings}
+        chunkerSettings={chunkerSettings}
+        setChunkerSettings={setChunkerSettings}
       />
 
       <div className="fixed bottom-4 right-4 z-[60] flex flex-col items-end gap-2 pointer-events-none">
-        {isGeminiMissing() && (
+        {isEmbedderMissing() && (
           <div className="bg-blue-600/10 border border-blue-500/30 backdrop-blur-xl px-4 py-2 rounded-xl text-[10px] text-blue-500 font-bold flex items-center gap-2 shadow-2xl">
             <span className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse"></span>
-            GEMINI REQ FOR MEMORY
+            EMBEDDINGS REQ FOR MEMORY
+          </div>
+        )}
+        {staleDocIds.length > 0 && (
+          <div className="bg-amber-600/10 border border-amber-500/30 backdrop-blur-xl px-4 py-2 rounded-xl text-[10px] text-amber-500 font-bold flex items-center gap-3 shadow-2xl pointer-events-auto">
+            <span className={`w-1.5 h-1.5 rounded-full bg-amber-500 ${reindexProgress ? 'animate-ping' : 'animate-pulse'}`}></span>
+            {reindexProgress ? (
+              <span>RE-INDEXING {reindexProgress}</span>
+            ) : (
+              <>
+                <span title={reindexError || undefined}>
+                  {reindexError ? 'RE-INDEX PAUSED' : `${staleDocIds.length} DOC${staleDocIds.length > 1 ? 'S' : ''} INDEXED WITH OLD SETTINGS`}
+                </span>
+                <button
+                  onClick={() => runReindex(staleDocIds)}
+                  disabled={isEmbedderMissing()}
+                  className="px-2 py-0.5 rounded-lg bg-amber-500 text-white uppercase tracking-widest disabled:opacity-40"
+                >
+                  {reindexJob ? 'Resume' : 'Re-index'}
+                </button>
+              </>
+            )}
           </div>
         )}
         {isChatProviderMissing() && (
           <div className="bg-red-600/10 border border-red-500/30 backdrop-blur-xl px-4 py-2 rounded-xl text-[10px] text-red-500 font-bold flex items-center gap-2 shadow-2xl">
             <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-ping"></span>
-            {provider.toUpperCase()} CHAT OFFLINE
+            {activeProvider.label.toUpperCase()} CHAT OFFLINE
           </div>
         )}
       </div>
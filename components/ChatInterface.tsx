@@ -1,20 +1,33 @@
 
-// Fix: Removed the unnecessary second argument from the getEmbedding call.
 import React, { useState, useRef, useEffect } from 'react';
-import { Message, UserProfile, Document, DocumentChunk, AIProvider, GroqModel, AIResponse, GroundingSource } from '../types';
-import { geminiService } from '../services/geminiService';
-import { groqService } from '../services/groqService';
-import { marked } from 'marked';
-import katex from 'katex';
+import RetrievalInspector from './RetrievalInspector';
+import DocumentViewer from './DocumentViewer';
+import ScopePicker from './ScopePicker';
+import { Message, MessageCitation, UserProfile, Document, DocumentChunk, ChatProvider, ProviderAccent, ProviderSettings, EmbeddingConfig, RetrievalSettings, RetrievalScope, ConversationSummary } from '../types';
+import { retrievalService, RetrievalResult } from '../services/retrievalService';
+import { queryRewriteService } from '../services/queryRewriteService';
+import { contextBuilder } from '../services/contextBuilder';
+import { scopeService } from '../services/scopeService';
+import { providerRegistry } from '../services/providerRegistry';
+import { messageTree } from '../services/messageTree';
+import { citationService } from '../services/citationService';
+import { storageService } from '../services/storageService';
+import { markdownService } from '../services/markdownService';
 
 interface ChatInterfaceProps {
   messages: Message[];
   setMessages: (msgs: Message[] | ((prev: Message[]) => Message[])) => void;
+  activeLeafId: string | null;
+  setActiveLeafId: (id: string | null) => void;
+  summary: ConversationSummary | null;
+  setSummary: (summary: ConversationSummary) => void;
   profile: UserProfile;
   documents: Document[];
-  cachedChunks: DocumentChunk[];
-  provider: AIProvider;
-  groqModel: GroqModel;
+  embeddingConfig: EmbeddingConfig;
+  retrievalSettings: RetrievalSettings;
+  provider: ChatProvider;
+  model: string;
+  providerSettings: ProviderSettings;
   toggleSidebar?: () => void;
   currentChatId: string | null;
   onFirstMessage: (m: Message) => void;
@@ -22,14 +35,47 @@ interface ChatInterfaceProps {
   setUseWebSearch: (val: boolean) => void;
 }
 
+const ACCENT_STYLES: Record<ProviderAccent, { badge: string; dot: string; hero: string; send: string }> = {
+  blue: {
+    badge: 'text-blue-500 border-blue-500/20 bg-blue-500/5',
+    dot: 'bg-blue-500',
+    hero: 'bg-blue-600/10 border border-blue-500/20 text-blue-500',
+    send: 'bg-blue-600 hover:bg-blue-500'
+  },
+  orange: {
+    badge: 'text-orange-500 border-orange-500/20 bg-orange-500/5',
+    dot: 'bg-orange-500',
+    hero: 'bg-orange-600/10 border border-orange-500/20 text-orange-500',
+    send: 'bg-orange-600 hover:bg-orange-500'
+  },
+  purple: {
+    badge: 'text-purple-500 border-purple-500/20 bg-purple-500/5',
+    dot: 'bg-purple-500',
+    hero: 'bg-purple-600/10 border border-purple-500/20 text-purple-500',
+    send: 'bg-purple-600 hover:bg-purple-500'
+  },
+  emerald: {
+    badge: 'text-emerald-500 border-emerald-500/20 bg-emerald-500/5',
+    dot: 'bg-emerald-500',
+    hero: 'bg-emerald-600/10 border border-emerald-500/20 text-emerald-500',
+    send: 'bg-emerald-600 hover:bg-emerald-500'
+  }
+};
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages = [],
   setMessages,
+  activeLeafId,
+  setActiveLeafId,
+  summary,
+  setSummary,
   profile,
   documents = [],
-  cachedChunks = [],
+  embeddingConfig,
+  retrievalSettings,
   provider,
-  groqModel,
+  model,
+  providerSettings,
   toggleSidebar,
   currentChatId,
   onFirstMessage,
@@ -40,14 +86,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [retrieving, setRetrieving] = useState(false);
   const [isReranking, setIsReranking] = useState(false);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
   const [isSearchingWeb, setIsSearchingWeb] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const [showHistoryIndicator, setShowHistoryIndicator] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [openCitation, setOpenCitation] = useState<MessageCitation | null>(null);
+  const [citedChunk, setCitedChunk] = useState<DocumentChunk | undefined>(undefined);
+  const [retrievalScope, setRetrievalScope] = useState<RetrievalScope>(scopeService.empty());
 
+  const abortControllerRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const safeMessages = Array.isArray(messages) ? messages : [];
+  const thread = messageTree.getThread(safeMessages, activeLeafId);
+  const activeModel = providerRegistry.resolveModel(provider, model);
+  const accent = ACCENT_STYLES[provider.accent];
+  const webSearchActive = provider.capabilities.webSearch && useWebSearch;
+  const citedDocument = openCitation ? documents.find(d => d.id === openCitation.docId) : undefined;
+  const mentionSuggestions = scopeService.suggest(input, documents);
 
   useEffect(() => {
     if (currentChatId && messages.length > 0) {
@@ -57,6 +117,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [currentChatId]);
 
+  // Leaving the chat view cancels any generation still in flight
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   useEffect(() => {
     const checkMobile = () => {
       setIsMobile(/iPhone|iPad|iPod|Android/i.test(navigator.userAgent));
@@ -66,89 +129,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  useEffect(() => {
-    const renderer = new marked.Renderer();
-
-    renderer.code = ({ text, lang }) => {
-      const id = `code-${Math.random().toString(36).substr(2, 9)}`;
-      return `
-        <div class="code-block-wrapper">
-          <button class="copy-button" onclick="copyToClipboard(this, '${id}')">Copy</button>
-          <pre><code id="${id}">${text}</code></pre>
-        </div>
-      `;
-    };
-
-    marked.use({
-      renderer,
-      extensions: [
-        {
-          name: 'inlineMath',
-          level: 'inline',
-          start(src) { return src.indexOf('$'); },
-          tokenizer(src) {
-            const match = src.match(/^\$([^$]+)\$/);
-            if (match) {
-              return {
-                type: 'inlineMath',
-                raw: match[0],
-                text: match[1].trim()
-              };
-            }
-          },
-          renderer(token) {
-            try {
-              return katex.renderToString(token.text, { displayMode: false, throwOnError: false });
-            } catch (e) {
-              return token.raw;
-            }
-          }
-        },
-        {
-          name: 'blockMath',
-          level: 'block',
-          start(src) { return src.indexOf('$$'); },
-          tokenizer(src) {
-            const match = src.match(/^\$\$([\s\S]+?)\$\$/);
-            if (match) {
-              return {
-                type: 'blockMath',
-                raw: match[0],
-                text: match[1].trim()
-              };
-            }
-          },
-          renderer(token) {
-            try {
-              const html = katex.renderToString(token.text, { displayMode: true, throwOnError: false });
-              return `<div class="math-block">${html}</div>`;
-            } catch (e) {
-              return `<div class="math-block">${token.raw}</div>`;
-            }
-          }
-        }
-      ]
-    });
-
-    (window as any).copyToClipboard = (btn: HTMLButtonElement, codeId: string) => {
-      const codeElement = document.getElementById(codeId);
-      if (codeElement) {
-        navigator.clipboard.writeText(codeElement.innerText).then(() => {
-          const originalText = btn.innerText;
-          btn.innerText = 'Copied!';
-          setTimeout(() => {
-            btn.innerText = originalText;
-          }, 2000);
-        });
-      }
-    };
-  }, []);
-
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [safeMessages, isLoading, retrieving, isSearchingWeb, isReranking]);
+  }, [thread.length, safeMessages, isLoading, retrieving, isSearchingWeb, isReranking, isRewriting, isSummarizing]);
+
+  // Chunks live in IndexedDB, not in memory, so the cited one is fetched on demand
+  useEffect(() => {
+    setCitedChunk(undefined);
+    if (!openCitation) return;
+    let isCurrent = true;
+    storageService.getChunksByIds([openCitation.chunkId])
+      .then(([chunk]) => { if (isCurrent) setCitedChunk(chunk); })
+      .catch(err => console.warn("Could not load cited chunk", err));
+    return () => { isCurrent = false; };
+  }, [openCitation]);
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -157,140 +153,221 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [input]);
 
-  const performHybridRetrieval = async (query: string): Promise<DocumentChunk[]> => {
-    if (cachedChunks.length === 0) return [];
-
+  const performHybridRetrieval = async (query: string, history: Message[], signal: AbortSignal): Promise<RetrievalResult> => {
     try {
-      // Fix: Removed the unnecessary second argument from the getEmbedding call
-      const queryEmbedding = await geminiService.getEmbedding(query);
-      const queryWords = query.toLowerCase().split(/\W+/).filter(w => w.length > 2);
-
-      const scoredChunks = cachedChunks.map(chunk => {
-        // Vector Score
-        const vectorSimilarity = geminiService.cosineSimilarity(queryEmbedding, chunk.embedding);
-
-        // Text Match Score (Keyword match)
-        let textScore = 0;
-        const chunkTextLower = chunk.text.toLowerCase();
-        queryWords.forEach(word => {
-          if (chunkTextLower.includes(word)) textScore += 0.15;
-        });
-
-        const hybridScore = (vectorSimilarity * 0.7) + (textScore * 0.3);
-        return { chunk, score: hybridScore };
-      });
-
-      const topCandidates = scoredChunks
-        .filter(item => item.score > 0.3)
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 15)
-        .map(item => item.chunk);
-
-      if (topCandidates.length > 0) {
-        setIsReranking(true);
-        const refined = await geminiService.rerankChunks(query, topCandidates);
-        setIsReranking(false);
-        return refined;
+      // @doc / #tag mentions narrow this question on top of the picker scope and are not searched for
+      const mentions = scopeService.parseMentions(query, documents);
+      const searchQuery = mentions.query || query;
+
+      let rewrite = null;
+      if (documents.length > 0 && history.length > 0) {
+        setIsRewriting(true);
+        rewrite = await queryRewriteService.rewrite(searchQuery, history, { provider, model, settings: providerSettings }, signal);
+        setIsRewriting(false);
       }
 
-      return [];
-    } catch (e) {
-      console.warn("Memory retrieval paused", e);
-      return [];
+      return await retrievalService.retrieve(searchQuery, documents, embeddingConfig, {
+        signal,
+        settings: retrievalSettings,
+        docIds: scopeService.resolveNarrowed(documents, [retrievalScope, mentions.scope]),
+        scopeLabels: scopeService.isEmpty(retrievalScope) || scopeService.isEmpty(mentions.scope)
+          ? [...scopeService.describe(documents, retrievalScope), ...scopeService.describe(documents, mentions.scope)]
+          : [...scopeService.describe(documents, retrievalScope), `narrowed to ${scopeService.describe(documents, mentions.scope).join(', ')}`],
+        rewrite,
+        chat: { provider, model, settings: providerSettings },
+        onRerankStart: () => setIsReranking(true)
+      });
     } finally {
+      setIsRewriting(false);
       setIsReranking(false);
     }
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
-
-    const userMsgId = Date.now().toString();
+  // Streams a model reply to `query` as a child of `parentId`, replaying `history` as context
+  const generateResponse = async (query: string, history: Message[], parentId: string) => {
     const aiMsgId = (Date.now() + 1).toString();
-
-    const userMessage: Message = {
-      id: userMsgId,
-      role: 'user',
-      content: input,
-      timestamp: Date.now(),
-    };
-
-    const currentInput = input;
-    setInput('');
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setRetrieving(true);
 
-    if (!currentChatId) {
-      onFirstMessage(userMessage);
-    } else {
-      setMessages(prev => [...prev, userMessage]);
-    }
-
     const aiPlaceholder: Message = {
       id: aiMsgId,
+      parentId,
       role: 'model',
       content: '',
       timestamp: Date.now(),
       isStreaming: true,
     };
     setMessages(prev => [...prev, aiPlaceholder]);
+    setActiveLeafId(aiMsgId);
 
     try {
-      const relevantChunks = await performHybridRetrieval(currentInput);
+      const { chunks: retrievedChunks, trace } = await performHybridRetrieval(query, history, controller.signal);
       const allDocTitles = documents.map(d => d.title);
+
+      // Fit instructions, snippets and history into the model's window; overflowing turns are folded into the summary
+      const chat = { provider, model, settings: providerSettings };
+      const planInput = {
+        query,
+        history,
+        summary,
+        profile,
+        relevantChunks: retrievedChunks,
+        allDocTitles,
+        useSearch: webSearchActive,
+        contextWindow: contextBuilder.getContextWindow(provider, model, providerSettings)
+      };
+      let contextPlan = contextBuilder.plan(planInput);
+      if (contextPlan.foldable.length > 0) {
+        setIsSummarizing(true);
+        const updated = await contextBuilder.summarize(history, summary, contextPlan.foldable, chat, controller.signal);
+        setIsSummarizing(false);
+        if (updated) {
+          setSummary(updated);
+          contextPlan = contextBuilder.plan({ ...planInput, summary: updated });
+        }
+      }
+      const relevantChunks = contextPlan.relevantChunks;
       setRetrieving(false);
+      setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, retrievalTrace: trace } : m));
 
-      if (relevantChunks.length === 0 && provider === 'gemini' && useWebSearch) {
+      if (relevantChunks.length === 0 && webSearchActive) {
         setIsSearchingWeb(true);
       }
 
-      const activeHistory = !currentChatId ? [] : safeMessages;
-
-      if (provider === 'groq') {
-        const stream = groqService.askGroqStream(currentInput, activeHistory, profile, relevantChunks, allDocTitles, groqModel);
-        for await (const chunk of stream) {
-          setMessages(prev => prev.map(m =>
-            m.id === aiMsgId ? { ...m, content: chunk.text, sources: chunk.sources } : m
-          ));
-        }
-      } else {
-        const stream = geminiService.askVoraStream(currentInput, activeHistory, profile, relevantChunks, allDocTitles, useWebSearch);
-        for await (const chunk of stream) {
-          setIsSearchingWeb(false);
-          setMessages(prev => prev.map(m =>
-            m.id === aiMsgId ? {
-              ...m,
-              content: chunk.text,
-              sources: chunk.sources,
-              groundingSources: chunk.groundingSources
-            } : m
-          ));
-        }
+      const stream = provider.stream({
+        query,
+        history: contextPlan.history,
+        summary: contextPlan.summary,
+        profile,
+        relevantChunks,
+        allDocTitles,
+        model,
+        settings: providerSettings,
+        useSearch: webSearchActive,
+        signal: controller.signal
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        setIsSearchingWeb(false);
+        setMessages(prev => prev.map(m =>
+          m.id === aiMsgId ? {
+            ...m,
+            content: chunk.text,
+            sources: chunk.sources,
+            groundingSources: chunk.groundingSources,
+            citations: citationService.parse(chunk.text, relevantChunks)
+          } : m
+        ));
       }
 
-      setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, isStreaming: false } : m));
-    } catch (err: any) {
-      console.error(err);
-      setMessages(prev => prev.map(m =>
-        m.id === aiMsgId ? { ...m, content: `Intelligence sync failed: ${err.message || "Unknown error"}.`, isStreaming: false } : m
+      setMessages(prev => prev.map(m => m.id === aiMsgId
+        ? { ...m, isStreaming: false, truncated: controller.signal.aborted || undefined }
+        : m
       ));
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Keep whatever streamed before the stop
+        setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, isStreaming: false, truncated: true } : m));
+      } else {
+        console.error(err);
+        setMessages(prev => prev.map(m =>
+          m.id === aiMsgId ? { ...m, content: `Intelligence sync failed: ${err.message || "Unknown error"}.`, isStreaming: false } : m
+        ));
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setRetrieving(false);
       setIsSearchingWeb(false);
       setIsReranking(false);
+      setIsSummarizing(false);
     }
   };
 
-  const renderMarkdown = (content: string) => {
-    try {
-      return { __html: marked.parse(content) as string };
-    } catch (e) {
-      return { __html: content };
+  // Adds a user turn after `parentId` (null starts the conversation) and answers it
+  const submitUserMessage = async (content: string, parentId: string | null, history: Message[]) => {
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      parentId,
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+    };
+
+    if (!currentChatId) {
+      onFirstMessage(userMessage);
+    } else {
+      setMessages(prev => [...prev, userMessage]);
+      setActiveLeafId(userMessage.id);
     }
+
+    await generateResponse(content, history, userMessage.id);
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading) return;
+
+    const currentInput = input;
+    setInput('');
+
+    const lastMessage = thread[thread.length - 1];
+    await submitUserMessage(currentInput, lastMessage?.id ?? null, !currentChatId ? [] : thread);
+  };
+
+  const handleRegenerate = async (modelMsg: Message) => {
+    if (isLoading || !modelMsg.parentId) return;
+    const index = thread.findIndex(m => m.id === modelMsg.parentId);
+    if (index === -1) return;
+
+    // The new answer becomes a sibling of the old one under the same question
+    await generateResponse(thread[index].content, thread.slice(0, index), thread[index].id);
+  };
+
+  const handleSubmitEdit = async (userMsg: Message) => {
+    const content = editDraft.trim();
+    setEditingId(null);
+    if (isLoading || !content || content === userMsg.content) return;
+    const index = thread.findIndex(m => m.id === userMsg.id);
+    if (index === -1) return;
+
+    // Edits fork a new branch next to the original question instead of overwriting it
+    await submitUserMessage(content, userMsg.parentId ?? null, thread.slice(0, index));
+  };
+
+  const handleSwitchBranch = (msg: Message, direction: -1 | 1) => {
+    if (isLoading) return;
+    const siblings = messageTree.getSiblings(safeMessages, msg);
+    const target = siblings[siblings.indexOf(msg) + direction];
+    if (target) setActiveLeafId(messageTree.getLatestLeaf(safeMessages, target.id));
+  };
+
+  // Citation markers are rendered as HTML by marked, so clicks are delegated from the message body
+  const handleCitationClick = (e: React.MouseEvent, msg: Message) => {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-citation]');
+    if (!target) return;
+    const citation = msg.citations?.find(c => c.index === Number(target.dataset.citation));
+    if (citation) setOpenCitation(citation);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const renderMarkdown = (msg: Message) => ({ __html: markdownService.renderChat(msg.content, msg.citations?.map(c => c.index)) });
+
+  const applyMention = (insert: string) => {
+    setInput(`${input.slice(0, mentionSuggestions.replaceFrom)}${insert} `);
+    textareaRef.current?.focus();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab' && mentionSuggestions.suggestions.length > 0) {
+      e.preventDefault();
+      applyMention(mentionSuggestions.suggestions[0].insert);
+      return;
+    }
     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
       e.preventDefault();
       handleSend();
@@ -322,7 +399,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </span>
           )}
 
-          {provider === 'gemini' && (
+          <ScopePicker documents={documents} scope={retrievalScope} setScope={setRetrievalScope} />
+
+          {provider.capabilities.webSearch && (
             <button
               onClick={() => setUseWebSearch(!useWebSearch)}
               className={`group flex items-center gap-2 px-3 py-1.5 rounded-xl border transition-all ${useWebSearch
@@ -337,23 +416,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </button>
           )}
 
-          <span className={`text-[9px] font-bold uppercase tracking-widest px-3 py-1.5 rounded-xl border flex items-center gap-2 ${provider === 'gemini' ? 'text-blue-500 border-blue-500/20 bg-blue-500/5' : 'text-orange-500 border-orange-500/20 bg-orange-500/5'
-            }`}>
-            {provider === 'gemini' ? 'Gemini 3 Flash' : (
-              <>
-                <span className={`w-1 h-1 rounded-full animate-pulse ${groqModel === 'openai/gpt-oss-120b' ? 'bg-purple-500' : 'bg-orange-500'}`}></span>
-                {groqModel === 'openai/gpt-oss-120b' ? 'GPT OSS' : 'Groq Llama'}
-              </>
+          <span className={`text-[9px] font-bold uppercase tracking-widest px-3 py-1.5 rounded-xl border flex items-center gap-2 ${accent.badge}`}>
+            {activeModel?.accent && (
+              <span className={`w-1 h-1 rounded-full animate-pulse ${ACCENT_STYLES[activeModel.accent].dot}`}></span>
             )}
+            {activeModel?.badge || model || provider.label}
           </span>
         </div>
       </div>
 
       <div ref={scrollRef} className="flex-1 overflow-y-auto px-4 py-6 lg:px-24 lg:py-16 space-y-12 scroll-smooth bg-transparent relative z-10">
-        {safeMessages.length === 0 && (
+        {thread.length === 0 && (
           <div className="h-full flex flex-col items-center justify-center text-center max-w-sm mx-auto space-y-8 animate-fade-in py-20">
-            <div className={`w-16 h-16 rounded-2xl flex items-center justify-center shadow-2xl transition-all duration-700 transform hover:scale-105 ${provider === 'gemini' ? 'bg-blue-600/10 border border-blue-500/20 text-blue-500' : 'bg-orange-600/10 border border-orange-500/20 text-orange-500'
-              }`}>
+            <div className={`w-16 h-16 rounded-2xl flex items-center justify-center shadow-2xl transition-all duration-700 transform hover:scale-105 ${accent.hero}`}>
               <span className="text-xl font-black">VA</span>
             </div>
             <div className="space-y-4">
@@ -368,67 +443,179 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
-        {safeMessages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[95%] sm:max-w-[85%] lg:max-w-[85%] ${msg.role === 'user' ? 'text-right' : 'text-left'}`}>
-              <div className={`inline-block px-5 py-4 lg:px-7 lg:py-5 rounded-2xl text-[14px] lg:text-[15px] leading-relaxed transition-all shadow-sm ${msg.role === 'user'
-                  ? 'bg-slate-800 text-white font-medium rounded-tr-none text-left shadow-lg'
-                  : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] rounded-tl-none font-normal'
-                }`}>
-                {msg.role === 'user' ? (
-                  <div className="whitespace-pre-wrap">{msg.content}</div>
-                ) : (
-                  msg.content === '' && msg.isStreaming ? (
-                    <div className="flex gap-1.5 py-1">
-                      <div className="w-1.5 h-1.5 rounded-full bg-slate-500 animate-bounce"></div>
-                      <div className="w-1.5 h-1.5 rounded-full bg-slate-500 animate-bounce [animation-delay:0.2s]"></div>
-                      <div className="w-1.5 h-1.5 rounded-full bg-slate-500 animate-bounce [animation-delay:0.4s]"></div>
-                    </div>
+        {thread.map((msg) => {
+          const siblings = messageTree.getSiblings(safeMessages, msg);
+          const branchIndex = siblings.indexOf(msg);
+
+          return (
+            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[95%] sm:max-w-[85%] lg:max-w-[85%] ${msg.role === 'user' ? 'text-right' : 'text-left'}`}>
+                <div className={`inline-block px-5 py-4 lg:px-7 lg:py-5 rounded-2xl text-[14px] lg:text-[15px] leading-relaxed transition-all shadow-sm ${msg.role === 'user'
+                    ? 'bg-slate-800 text-white font-medium rounded-tr-none text-left shadow-lg'
+                    : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] rounded-tl-none font-normal'
+                  }`}>
+                  {msg.role === 'user' ? (
+                    editingId === msg.id ? (
+                      <div className="flex flex-col gap-3 min-w-[240px] sm:min-w-[420px]">
+                        <textarea
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                              e.preventDefault();
+                              handleSubmitEdit(msg);
+                            }
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          rows={3}
+                          autoFocus
+                          className="w-full bg-transparent text-white focus:outline-none resize-none custom-scrollbar"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-300 hover:text-white transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleSubmitEdit(msg)}
+                            disabled={!editDraft.trim()}
+                            className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-white ${accent.send} disabled:opacity-40`}
+                          >
+                            Send
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="whitespace-pre-wrap">{msg.content}</div>
+                    )
                   ) : (
-                    <div className="relative">
-                      <div
-                        className="markdown-content inline"
-                        dangerouslySetInnerHTML={renderMarkdown(msg.content)}
-                      />
-                      {msg.isStreaming && <span className="typing-cursor"></span>}
+                    msg.content === '' && msg.isStreaming ? (
+                      <div className="flex gap-1.5 py-1">
+                        <div className="w-1.5 h-1.5 rounded-full bg-slate-500 animate-bounce"></div>
+                        <div className="w-1.5 h-1.5 rounded-full bg-slate-500 animate-bounce [animation-delay:0.2s]"></div>
+                        <div className="w-1.5 h-1.5 rounded-full bg-slate-500 animate-bounce [animation-delay:0.4s]"></div>
+                      </div>
+                    ) : (
+                      <div className="relative">
+                        <div
+                          className="markdown-content inline"
+                          onClick={(e) => handleCitationClick(e, msg)}
+                          dangerouslySetInnerHTML={renderMarkdown(msg)}
+                        />
+                        {msg.isStreaming && <span className="typing-cursor"></span>}
+                      </div>
+                    )
+                  )}
+                </div>
+
+                <div className="mt-3 flex flex-col gap-2">
+                  {!msg.isStreaming && editingId !== msg.id && (
+                    <div className={`flex items-center gap-1 px-1 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      {siblings.length > 1 && (
+                        <div className="flex items-center gap-1 text-[9px] font-black text-[var(--text-main)] tracking-widest mr-1">
+                          <button
+                            onClick={() => handleSwitchBranch(msg, -1)}
+                            disabled={isLoading || branchIndex === 0}
+                            className="p-1 rounded-md hover:text-[var(--text-heading)] disabled:opacity-30 transition-colors"
+                            title="Previous version"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" /></svg>
+                          </button>
+                          <span>{branchIndex + 1}/{siblings.length}</span>
+                          <button
+                            onClick={() => handleSwitchBranch(msg, 1)}
+                            disabled={isLoading || branchIndex === siblings.length - 1}
+                            className="p-1 rounded-md hover:text-[var(--text-heading)] disabled:opacity-30 transition-colors"
+                            title="Next version"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" /></svg>
+                          </button>
+                        </div>
+                      )}
+                      {msg.role === 'user' ? (
+                        <button
+                          onClick={() => { setEditingId(msg.id); setEditDraft(msg.content); }}
+                          disabled={isLoading}
+                          className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-[var(--text-heading)] disabled:opacity-30 transition-colors"
+                        >
+                          Edit
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleRegenerate(msg)}
+                          disabled={isLoading || !msg.parentId}
+                          className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-[var(--text-heading)] disabled:opacity-30 transition-colors"
+                        >
+                          Regenerate
+                        </button>
+                      )}
                     </div>
-                  )
-                )}
-              </div>
+                  )}
+
+                  {msg.role === 'model' && msg.retrievalTrace && !msg.isStreaming && (
+                    <RetrievalInspector trace={msg.retrievalTrace} />
+                  )}
 
-              <div className="mt-3 flex flex-col gap-2">
-                {msg.sources && msg.sources.length > 0 && (
-                  <div className="flex flex-wrap gap-2 justify-start px-1 opacity-60">
-                    <span className="text-[8px] text-[var(--text-main)] font-bold uppercase tracking-widest self-center mr-1">Memory Bank:</span>
-                    {msg.sources.map((s, idx) => (
-                      <span key={idx} className="px-2 py-0.5 rounded-lg bg-[var(--bg-card)] border border-[var(--border-muted)] text-[8px] text-[var(--text-main)] font-bold uppercase tracking-tight">
-                        {s}
+                  {msg.truncated && (
+                    <div className="flex justify-start px-1">
+                      <span className="flex items-center gap-1.5 px-2 py-0.5 rounded-lg bg-amber-500/5 border border-amber-500/20 text-[8px] text-amber-500 font-bold uppercase tracking-widest">
+                        <span className="w-1 h-1 rounded-full bg-amber-500"></span>
+                        {msg.content ? 'Stopped Early' : 'Generation Stopped'}
                       </span>
-                    ))}
-                  </div>
-                )}
-
-                {msg.groundingSources && msg.groundingSources.length > 0 && (
-                  <div className="flex flex-wrap gap-2 justify-start px-1">
-                    <span className="text-[8px] text-blue-500/60 font-bold uppercase tracking-widest self-center mr-1">Web Sources:</span>
-                    {msg.groundingSources.map((s, idx) => (
-                      <a
-                        key={idx}
-                        href={s.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-1.5 px-2 py-0.5 rounded-lg bg-cyan-500/5 border border-cyan-500/20 text-[8px] text-cyan-500 font-bold uppercase tracking-tight hover:bg-cyan-500/10 hover:border-cyan-500/40 transition-all shadow-sm"
-                      >
-                        <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" /></svg>
-                        {s.title}
-                      </a>
-                    ))}
-                  </div>
-                )}
+                    </div>
+                  )}
+
+                  {msg.citations && msg.citations.length > 0 && (
+                    <div className="flex flex-wrap gap-2 justify-start px-1">
+                      <span className="text-[8px] text-[var(--text-main)] font-bold uppercase tracking-widest self-center mr-1 opacity-60">Cited:</span>
+                      {msg.citations.map(c => (
+                        <button
+                          key={c.index}
+                          onClick={() => setOpenCitation(c)}
+                          className="flex items-center gap-1.5 px-2 py-0.5 rounded-lg bg-blue-500/5 border border-blue-500/20 text-[8px] text-blue-500 font-bold uppercase tracking-tight hover:bg-blue-500/10 hover:border-blue-500/40 transition-all"
+                        >
+                          <span className="font-black">[{c.index}]</span>
+                          {c.docTitle}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {msg.sources && msg.sources.length > 0 && (
+                    <div className="flex flex-wrap gap-2 justify-start px-1 opacity-60">
+                      <span className="text-[8px] text-[var(--text-main)] font-bold uppercase tracking-widest self-center mr-1">Memory Bank:</span>
+                      {msg.sources.map((s, idx) => (
+                        <span key={idx} className="px-2 py-0.5 rounded-lg bg-[var(--bg-card)] border border-[var(--border-muted)] text-[8px] text-[var(--text-main)] font-bold uppercase tracking-tight">
+                          {s}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {msg.groundingSources && msg.groundingSources.length > 0 && (
+                    <div className="flex flex-wrap gap-2 justify-start px-1">
+                      <span className="text-[8px] text-blue-500/60 font-bold uppercase tracking-widest self-center mr-1">Web Sources:</span>
+                      {msg.groundingSources.map((s, idx) => (
+                        <a
+                          key={idx}
+                          href={s.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1.5 px-2 py-0.5 rounded-lg bg-cyan-500/5 border border-cyan-500/20 text-[8px] text-cyan-500 font-bold uppercase tracking-tight hover:bg-cyan-500/10 hover:border-cyan-500/40 transition-all shadow-sm"
+                        >
+                          <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" /></svg>
+                          {s.title}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         {(retrieving || isSearchingWeb || isReranking) && (
           <div className="flex justify-start">
@@ -437,7 +624,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <span className={`w-1 h-1 rounded-full animate-pulse ${isSearchingWeb ? 'bg-cyan-500' : isReranking ? 'bg-purple-500' : 'bg-blue-500/40'}`}></span>
                 <span className={`w-1 h-1 rounded-full animate-pulse delay-75 ${isSearchingWeb ? 'bg-cyan-500' : isReranking ? 'bg-purple-500' : 'bg-blue-500/40'}`}></span>
               </div>
-              {isSearchingWeb ? 'Consulting the Web...' : isReranking ? 'Reasoning for Precision...' : 'Retrieving context...'}
+              {isSearchingWeb ? 'Consulting the Web...' : isReranking ? 'Reranking for Precision...' : isRewriting ? 'Resolving follow-up...' : isSummarizing ? 'Condensing earlier turns...' : 'Retrieving context...'}
             </div>
           </div>
         )}
@@ -446,7 +633,41 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       <div className="flex-shrink-0 p-4 lg:p-12 bg-transparent lg:bg-gradient-to-t lg:from-[var(--bg-deep)] lg:via-[var(--bg-deep)]/90 lg:to-transparent z-20 pb-safe shadow-none">
         <div className="max-w-4xl mx-auto">
+          {!scopeService.isEmpty(retrievalScope) && (
+            <div className="flex flex-wrap items-center gap-1.5 mb-2 px-2 animate-fade-in">
+              <span className="text-[8px] font-black uppercase tracking-widest text-[var(--text-main)]/60 mr-1">Searching only</span>
+              {([
+                ...retrievalScope.categories.map(v => ({ key: 'categories' as const, value: v, label: v })),
+                ...retrievalScope.tags.map(v => ({ key: 'tags' as const, value: v, label: `#${v}` })),
+                ...retrievalScope.docIds.map(v => ({ key: 'docIds' as const, value: v, label: documents.find(d => d.id === v)?.title || 'Deleted document' }))
+              ]).map(chip => (
+                <button
+                  key={`${chip.key}-${chip.value}`}
+                  onClick={() => setRetrievalScope(scopeService.toggle(retrievalScope, chip.key, chip.value))}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-lg bg-blue-500/10 border border-blue-500/20 text-blue-500 text-[9px] font-bold hover:border-red-500/30 hover:text-red-500 transition-colors max-w-[200px]"
+                  title="Remove from scope"
+                >
+                  <span className="truncate">{chip.label}</span>
+                  <span className="opacity-60">×</span>
+                </button>
+              ))}
+            </div>
+          )}
           <div className="relative group">
+            {mentionSuggestions.suggestions.length > 0 && (
+              <div className="absolute bottom-full left-4 mb-2 w-72 z-30 bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-2xl shadow-2xl p-1.5 animate-fade-in">
+                {mentionSuggestions.suggestions.map(s => (
+                  <button
+                    key={`${s.kind}-${s.label}`}
+                    onMouseDown={(e) => { e.preventDefault(); applyMention(s.insert); }}
+                    className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-left text-[11px] font-bold text-[var(--text-heading)] hover:bg-[var(--bg-sidebar)] transition-colors"
+                  >
+                    <span className="truncate">{s.label}</span>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-[var(--text-main)]/60">{s.kind}</span>
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="absolute -inset-0.5 bg-blue-600/5 rounded-3xl blur opacity-0 group-focus-within:opacity-100 transition duration-500"></div>
             <div className="relative flex items-end gap-2 bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-3xl p-2 pl-5 pr-2 backdrop-blur-md transition-all shadow-xl">
               <textarea
@@ -458,18 +679,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 placeholder="Ask VORA about your documents..."
                 className="flex-1 bg-transparent py-3 text-[14px] text-[var(--text-heading)] focus:outline-none placeholder:text-[var(--text-main)]/50 resize-none max-h-[180px] custom-scrollbar"
               />
-              <button
-                onClick={handleSend}
-                disabled={!input.trim() || isLoading}
-                className={`w-10 h-10 mb-1 flex-shrink-0 transition-all rounded-xl flex items-center justify-center text-white shadow-lg ${provider === 'gemini' ? 'bg-blue-600 hover:bg-blue-500' : 'bg-orange-600 hover:bg-orange-500'
-                  } disabled:opacity-5 active:scale-95`}
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={handleStop}
+                  title="Stop generating"
+                  className="w-10 h-10 mb-1 flex-shrink-0 transition-all rounded-xl flex items-center justify-center text-white shadow-lg bg-red-600 hover:bg-red-500 active:scale-95"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim()}
+                  className={`w-10 h-10 mb-1 flex-shrink-0 transition-all rounded-xl flex items-center justify-center text-white shadow-lg ${accent.send} disabled:opacity-5 active:scale-95`}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {citedDocument && (
+        <DocumentViewer
+          document={citedDocument}
+          chunk={citedChunk}
+          label={`Citation [${openCitation?.index}]`}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,214 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Document, DocumentChunk, IngestionJob } from '../types';
+import { storageService } from '../services/storageService';
+import { ingestionService } from '../services/ingestionService';
+import { markdownService } from '../services/markdownService';
+import { chunkingService } from '../services/chunkingService';
+import { tokenService } from '../services/tokenService';
+import DocumentViewer from './DocumentViewer';
+import DocumentHistory from './DocumentHistory';
+
+interface DocumentDetailProps {
+  document: Document;
+  // The document's queued or running import, e.g. a saved edit being re-indexed
+  job?: IngestionJob;
+  onClose: () => void;
+}
+
+type DetailTab = 'preview' | 'chunks' | 'edit';
+
+const TABS: [DetailTab, string][] = [['preview', 'Preview'], ['chunks', 'Chunks'], ['edit', 'Edit']];
+
+// Chunk ids end in their position within the document
+const chunkIndex = (chunk: DocumentChunk) => Number(chunk.id.slice(chunk.id.lastIndexOf('-') + 1));
+
+const DocumentDetail: React.FC<DocumentDetailProps> = ({ document, job, onClose }) => {
+  const [tab, setTab] = useState<DetailTab>('preview');
+  const [chunks, setChunks] = useState<DocumentChunk[] | null>(null);
+  const [draft, setDraft] = useState(document.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openChunk, setOpenChunk] = useState<DocumentChunk | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // A saved edit is not unsaved while it waits to be re-indexed
+  const savedContent = job?.doc?.content ?? document.content;
+  const isDirty = draft !== savedContent;
+
+  // Chunks live in IndexedDB; reloaded once a saved edit has been re-indexed
+  useEffect(() => {
+    let isCurrent = true;
+    storageService.getDocumentChunks(document.id)
+      .then(found => { if (isCurrent) setChunks(found.sort((a, b) => chunkIndex(a) - chunkIndex(b))); })
+      .catch(err => {
+        console.error("Failed to load chunks:", err);
+        if (isCurrent) setChunks([]);
+      });
+    return () => { isCurrent = false; };
+  }, [document.id, document.content]);
+
+  // A new version landing while the view is open replaces an untouched draft, but never the user's edits
+  const previousSavedRef = useRef(savedContent);
+  useEffect(() => {
+    setDraft(current => current === previousSavedRef.current ? savedContent : current);
+    previousSavedRef.current = savedContent;
+  }, [savedContent]);
+
+  const previewHtml = useMemo(() => markdownService.renderDocument(
+    // Source files are shown as code rather than read as Markdown
+    document.type === 'code' ? `\`\`\`\n${document.content}\n\`\`\`` : document.content
+  ), [document.content, document.type]);
+
+  const close = () => {
+    if (isDirty && !confirm("Discard your unsaved changes?")) return;
+    onClose();
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await ingestionService.enqueueEdit(document, draft);
+      setTab('preview');
+    } catch (err: any) {
+      console.error("Saving the document failed:", err);
+      alert(`Failed to save: ${err.message}`);
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="absolute inset-0 bg-black/60 backdrop-blur-md animate-fade-in"
+          onClick={close}
+        />
+
+        <div className="relative w-full max-w-5xl h-[90vh] bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-[2.5rem] shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+          <div className="px-8 py-6 border-b border-[var(--border-muted)] flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-[var(--bg-sidebar)]/30">
+            <div className="flex flex-col min-w-0">
+              <span className="text-[9px] font-black text-blue-500 uppercase tracking-[0.2em]">
+                {document.type} · v{document.version || 1}{chunks ? ` · ${chunks.length} chunks` : ''}
+              </span>
+              <h2 className="text-sm font-black text-[var(--text-heading)] tracking-tight truncate" title={document.title}>{document.title}</h2>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {TABS.map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${tab === id ? 'bg-blue-600 text-white' : 'bg-[var(--bg-sidebar)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
+                >
+                  {label}
+                </button>
+              ))}
+              {(document.version || 1) > 1 && (
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-[var(--bg-sidebar)] text-[var(--text-main)] hover:text-[var(--text-heading)] transition-all"
+                >
+                  History
+                </button>
+              )}
+              <button
+                onClick={close}
+                className="p-2 text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          </div>
+
+          {job && (
+            <div className={`px-8 py-3 border-b border-[var(--border-muted)] text-[10px] font-black uppercase tracking-widest ${job.status === 'failed' ? 'text-red-500 bg-red-500/5' : 'text-blue-500 bg-blue-500/5'}`}>
+              {job.status === 'failed'
+                ? `Re-indexing failed: ${job.error} · retry it from the import queue`
+                : `Re-indexing changed passages · ${job.progress || 'waiting'}`}
+            </div>
+          )}
+
+          {tab === 'preview' && (
+            <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
+              <div className="markdown-content text-[13px] text-[var(--text-main)]" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+            </div>
+          )}
+
+          {tab === 'chunks' && (
+            <div className="flex-1 overflow-y-auto p-6 space-y-3 custom-scrollbar">
+              {chunks === null ? (
+                <p className="text-[10px] font-black uppercase tracking-widest text-[var(--text-main)] opacity-60 text-center py-6">Loading...</p>
+              ) : chunks.length === 0 ? (
+                <p className="text-[10px] font-black uppercase tracking-widest text-[var(--text-main)] opacity-60 text-center py-6">Not indexed yet</p>
+              ) : chunks.map(chunk => (
+                <button
+                  key={chunk.id}
+                  onClick={() => setOpenChunk(chunk)}
+                  className="w-full text-left px-5 py-4 rounded-2xl bg-[var(--bg-deep)] border border-[var(--border-muted)] hover:border-blue-500/30 transition-all space-y-2"
+                  title="Show in document"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="text-[9px] px-2 py-0.5 rounded-lg bg-blue-500/10 text-blue-500 font-black tracking-widest">#{chunkIndex(chunk) + 1}</span>
+                    <span className="flex-1 min-w-0 text-[10px] font-bold text-[var(--text-main)] mono truncate">
+                      {chunkingService.formatBreadcrumb(document.title, chunk.headingPath)}
+                    </span>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-[var(--text-main)] opacity-60 flex-shrink-0">
+                      ~{tokenService.estimate(chunk.text)} tokens
+                    </span>
+                  </div>
+                  <p className="text-[12px] leading-relaxed text-[var(--text-main)] whitespace-pre-wrap line-clamp-6">{chunk.text}</p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {tab === 'edit' && (
+            <div className="flex-1 flex flex-col min-h-0 p-6 gap-4">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                className="flex-1 min-h-0 w-full p-5 rounded-2xl bg-[var(--bg-deep)] border border-[var(--border-muted)] text-[12px] leading-relaxed mono text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 resize-none custom-scrollbar"
+              />
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-[10px] text-[var(--text-main)] font-medium opacity-60">
+                  Markdown with $…$ math. Saving keeps the current text in the version history and re-embeds only the passages that changed.
+                </p>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => setDraft(savedContent)}
+                    disabled={!isDirty || isSaving}
+                    className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors disabled:opacity-40"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={save}
+                    disabled={!isDirty || isSaving || !!job || !draft.trim()}
+                    className="px-4 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+                  >
+                    {isSaving ? 'Saving...' : 'Save & Re-index'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isHistoryOpen && (
+        <DocumentHistory document={document} onClose={() => setIsHistoryOpen(false)} />
+      )}
+
+      {openChunk && (
+        <DocumentViewer
+          document={document}
+          chunk={openChunk}
+          label={`Chunk #${chunkIndex(openChunk) + 1}`}
+          onClose={() => setOpenChunk(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default DocumentDetail;
@@ -0,0 +1,128 @@
+
+import React, { useEffect, useState } from 'react';
+import { Document, DocumentVersion } from '../types';
+import { storageService } from '../services/storageService';
+import DocumentViewer from './DocumentViewer';
+
+interface DocumentHistoryProps {
+  document: Document;
+  onClose: () => void;
+}
+
+interface HistoryEntry {
+  version: number;
+  title: string;
+  content: string;
+  importedAt: number;
+  isCurrent: boolean;
+}
+
+// Lines only in `next` and only in `previous`, compared as multisets: a cheap summary, not a diff
+const countLineChanges = (previous: string, next: string): { added: number; removed: number } => {
+  const counts = new Map<string, number>();
+  previous.split('\n').forEach(line => counts.set(line, (counts.get(line) || 0) + 1));
+  let added = 0;
+  next.split('\n').forEach(line => {
+    const left = counts.get(line) || 0;
+    if (left > 0) counts.set(line, left - 1);
+    else added++;
+  });
+  const removed = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+  return { added, removed };
+};
+
+const DocumentHistory: React.FC<DocumentHistoryProps> = ({ document, onClose }) => {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null);
+  const [viewing, setViewing] = useState<HistoryEntry | null>(null);
+
+  useEffect(() => {
+    storageService.getDocumentVersions(document.id)
+      .then(setVersions)
+      .catch(err => {
+        console.error("Failed to load version history:", err);
+        setVersions([]);
+      });
+  }, [document.id, document.version]);
+
+  // Newest first, the document's current content on top
+  const entries: HistoryEntry[] = [
+    {
+      version: document.version || 1,
+      title: document.title,
+      content: document.content,
+      importedAt: document.updatedAt || document.createdAt,
+      isCurrent: true
+    },
+    ...(versions || []).map(v => ({ version: v.version, title: v.title, content: v.content, importedAt: v.createdAt, isCurrent: false }))
+  ];
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="absolute inset-0 bg-black/60 backdrop-blur-md animate-fade-in"
+          onClick={onClose}
+        />
+
+        <div className="relative w-full max-w-xl bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-[2.5rem] shadow-2xl overflow-hidden animate-scale-in flex flex-col max-h-[80vh]">
+          <div className="px-8 py-6 border-b border-[var(--border-muted)] flex items-center justify-between gap-4 bg-[var(--bg-sidebar)]/30">
+            <div className="flex flex-col min-w-0">
+              <span className="text-[9px] font-black text-blue-500 uppercase tracking-[0.2em]">Version History</span>
+              <h2 className="text-sm font-black text-[var(--text-heading)] tracking-tight truncate" title={document.title}>{document.title}</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors flex-shrink-0"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-2 custom-scrollbar">
+            {versions === null ? (
+              <p className="text-[10px] font-black uppercase tracking-widest text-[var(--text-main)] opacity-60 text-center py-6">Loading...</p>
+            ) : entries.map((entry, i) => {
+              const older = entries[i + 1];
+              const changes = older ? countLineChanges(older.content, entry.content) : null;
+              return (
+                <button
+                  key={entry.version}
+                  onClick={() => setViewing(entry)}
+                  className="w-full flex items-center gap-4 px-5 py-3.5 rounded-2xl bg-[var(--bg-deep)] border border-[var(--border-muted)] hover:border-blue-500/30 transition-all text-left"
+                >
+                  <span className={`text-[10px] px-2 py-0.5 rounded-lg font-black uppercase tracking-widest ${entry.isCurrent ? 'bg-blue-500/10 text-blue-500' : 'bg-[var(--bg-sidebar)] text-[var(--text-main)]'}`}>
+                    v{entry.version}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[11px] font-bold text-[var(--text-heading)] truncate">
+                      {new Date(entry.importedAt).toLocaleString()}{entry.isCurrent ? ' · current' : ''}
+                    </p>
+                    <p className="text-[9px] font-bold text-[var(--text-main)] opacity-70">
+                      {entry.content.length.toLocaleString()} characters
+                      {changes && (
+                        <>
+                          {' · '}<span className="text-emerald-500">+{changes.added}</span> <span className="text-red-500">−{changes.removed}</span> lines
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <span className="text-[8px] font-black uppercase tracking-widest text-[var(--text-main)] opacity-60">View</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {viewing && (
+        <DocumentViewer
+          document={{ ...document, title: viewing.title, content: viewing.content }}
+          label={`Version ${viewing.version}${viewing.isCurrent ? ' · Current' : ''}`}
+          onClose={() => setViewing(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default DocumentHistory;
@@ -0,0 +1,77 @@
+
+import React, { useEffect, useRef } from 'react';
+import { Document, DocumentChunk } from '../types';
+import { citationService } from '../services/citationService';
+import { chunkingService } from '../services/chunkingService';
+
+interface DocumentViewerProps {
+  document: Document;
+  chunk?: DocumentChunk | null;
+  label?: string;
+  onClose: () => void;
+}
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document, chunk, label, onClose }) => {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const position = chunk ? document.content.indexOf(chunk.text) : -1;
+  // Chunks from the structured chunker carry their breadcrumb; older ones are looked up in the text
+  const heading = !chunk ? null
+    : chunk.headingPath?.length ? chunkingService.formatBreadcrumb(chunk.headingPath[0], chunk.headingPath.slice(1))
+    : citationService.findHeading(document.content, chunk.text);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [chunk?.id]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md animate-fade-in"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full max-w-3xl bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-[2.5rem] shadow-2xl overflow-hidden animate-scale-in flex flex-col max-h-[90vh]">
+        <div className="px-8 py-6 border-b border-[var(--border-muted)] flex items-center justify-between gap-4 bg-[var(--bg-sidebar)]/30">
+          <div className="flex flex-col min-w-0">
+            <span className="text-[9px] font-black text-blue-500 uppercase tracking-[0.2em]">{label || 'Memory Bank'}</span>
+            <h2 className="text-sm font-black text-[var(--text-heading)] tracking-tight truncate" title={document.title}>{document.title}</h2>
+            {heading && (
+              <span className="text-[10px] font-bold text-[var(--text-main)] mono truncate mt-1">{heading}</span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors flex-shrink-0"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
+          <div className="whitespace-pre-wrap text-[13px] leading-relaxed text-[var(--text-main)]">
+            {chunk && position !== -1 ? (
+              <>
+                {document.content.slice(0, position)}
+                <mark
+                  ref={highlightRef}
+                  className="bg-blue-500/15 text-[var(--text-heading)] rounded-md ring-1 ring-blue-500/30"
+                >
+                  {chunk.text}
+                </mark>
+                {document.content.slice(position + chunk.text.length)}
+              </>
+            ) : chunk ? (
+              // The stored content no longer contains the chunk verbatim: show the passage itself
+              <mark ref={highlightRef} className="bg-blue-500/15 text-[var(--text-heading)] rounded-md">{chunk.text}</mark>
+            ) : (
+              document.content
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -1,26 +1,129 @@
 
-import React from 'react';
-import { AIProvider, GroqModel } from '../types';
+import React, { useEffect, useState } from 'react';
+import { AIProvider, ProviderAccent, ProviderSettings, EmbeddingConfig, RetrievalSettings, ChunkerSettings } from '../types';
+import { providerRegistry } from '../services/providerRegistry';
+import { embeddingService } from '../services/embeddingService';
+import { retrievalService } from '../services/retrievalService';
+import { rerankService } from '../services/rerankService';
+import { chunkingService } from '../services/chunkingService';
 
 interface InfoModalProps {
     isOpen: boolean;
     onClose: () => void;
     provider: AIProvider;
     setProvider: (p: AIProvider) => void;
-    groqModel: GroqModel;
-    setGroqModel: (m: GroqModel) => void;
+    providerModels: Record<AIProvider, string>;
+    setProviderModel: (providerId: AIProvider, modelId: string) => void;
+    providerSettings: Record<AIProvider, ProviderSettings>;
+    setProviderSetting: (providerId: AIProvider, key: string, value: string) => void;
+    embeddingConfig: EmbeddingConfig;
+    setEmbeddingConfig: (config: EmbeddingConfig) => void;
+    retrievalSettings: RetrievalSettings;
+    setRetrievalSettings: (settings: RetrievalSettings) => void;
+    chunkerSettings: ChunkerSettings;
+    setChunkerSettings: (settings: ChunkerSettings) => void;
 }
 
+const PROVIDER_ACTIVE: Record<ProviderAccent, string> = {
+    blue: 'bg-blue-600 text-white shadow-lg',
+    orange: 'bg-orange-600 text-white shadow-lg',
+    purple: 'bg-purple-600 text-white shadow-lg',
+    emerald: 'bg-emerald-600 text-white shadow-lg'
+};
+
+const MODEL_ACTIVE: Record<ProviderAccent, string> = {
+    blue: 'bg-[var(--bg-card)] border-blue-500 text-blue-500',
+    orange: 'bg-[var(--bg-card)] border-orange-500 text-orange-500',
+    purple: 'bg-[var(--bg-card)] border-purple-500 text-purple-500',
+    emerald: 'bg-[var(--bg-card)] border-emerald-500 text-emerald-500'
+};
+
+type NumericRetrievalKey = Exclude<keyof RetrievalSettings, 'reranker'>;
+
+const RETRIEVAL_FIELDS: { key: NumericRetrievalKey; label: string; min: number; max: number; step: number }[] = [
+    { key: 'topK', label: 'Chunks in Context (Top-K)', min: 1, max: 20, step: 1 },
+    { key: 'candidateCount', label: 'Candidates Considered', min: 1, max: 50, step: 1 },
+    { key: 'scoreThreshold', label: 'Similarity Threshold', min: 0, max: 1, step: 0.05 },
+    { key: 'mmrLambda', label: 'MMR Lambda (1 = Relevance)', min: 0, max: 1, step: 0.05 },
+    { key: 'vectorWeight', label: 'Vector Weight', min: 0, max: 1, step: 0.05 },
+    { key: 'keywordWeight', label: 'Keyword Weight', min: 0, max: 1, step: 0.05 },
+    { key: 'maxContextTokens', label: 'Max Context Tokens', min: 200, max: 32000, step: 100 }
+];
+
+const CHUNKER_FIELDS: { key: keyof ChunkerSettings; label: string; min: number; max: number; step: number }[] = [
+    { key: 'chunkTokens', label: 'Chunk Size (Tokens)', min: 50, max: 2000, step: 10 },
+    { key: 'overlapTokens', label: 'Overlap (Tokens)', min: 0, max: 500, step: 10 }
+];
+
+interface NumberFieldProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    // Token counts: rounded as well as clamped
+    integer?: boolean;
+    onCommit: (value: number) => void;
+}
+
+// Keeps what is typed until blur or Enter, so clearing the box or typing "0." is not clamped mid-edit
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step, integer, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+
+    useEffect(() => setDraft(String(value)), [value]);
+
+    const commit = () => {
+        const parsed = Number(draft);
+        if (draft.trim() === '' || Number.isNaN(parsed)) {
+            setDraft(String(value));
+            return;
+        }
+        const clamped = Math.min(max, Math.max(min, integer ? Math.round(parsed) : parsed));
+        setDraft(String(clamped));
+        if (clamped !== value) onCommit(clamped);
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">{label}</label>
+            <input
+                type="number"
+                min={min}
+                max={max}
+                step={step}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+                className="w-full px-4 py-2.5 rounded-xl bg-[var(--bg-card)] border border-[var(--border-muted)] text-xs font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50"
+            />
+        </div>
+    );
+};
+
 const InfoModal: React.FC<InfoModalProps> = ({
     isOpen,
     onClose,
     provider,
     setProvider,
-    groqModel,
-    setGroqModel
+    providerModels,
+    setProviderModel,
+    providerSettings,
+    setProviderSetting,
+    embeddingConfig,
+    setEmbeddingConfig,
+    retrievalSettings,
+    setRetrievalSettings,
+    chunkerSettings,
+    setChunkerSettings
 }) => {
     if (!isOpen) return null;
 
+    const activeProvider = providerRegistry.get(provider);
+    const activeModelId = providerModels[activeProvider.id] || activeProvider.defaultModel;
+    const activeSettings = providerSettings[activeProvider.id] || {};
+    const embeddingProvider = embeddingService.get(embeddingConfig.provider);
+
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
             <div
@@ -76,40 +179,204 @@ const InfoModal: React.FC<InfoModalProps> = ({
                                 <div className="flex flex-col gap-3">
                                     <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">AI Provider</label>
                                     <div className="flex gap-2">
-                                        <button
-                                            onClick={() => setProvider('gemini')}
-                                            className={`flex-1 py-3 rounded-xl text-xs font-black transition-all ${provider === 'gemini' ? 'bg-blue-600 text-white shadow-lg' : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
-                                        >
-                                            Gemini
-                                        </button>
-                                        <button
-                                            onClick={() => setProvider('groq')}
-                                            className={`flex-1 py-3 rounded-xl text-xs font-black transition-all ${provider === 'groq' ? 'bg-orange-600 text-white shadow-lg' : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
-                                        >
-                                            Groq
-                                        </button>
+                                        {providerRegistry.list().map(p => (
+                                            <button
+                                                key={p.id}
+                                                onClick={() => setProvider(p.id)}
+                                                className={`flex-1 py-3 rounded-xl text-xs font-black transition-all ${provider === p.id ? PROVIDER_ACTIVE[p.accent] : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
+                                            >
+                                                {p.label}
+                                            </button>
+                                        ))}
                                     </div>
                                 </div>
 
-                                {provider === 'groq' && (
+                                {activeProvider.models.length > 1 && (
                                     <div className="flex flex-col gap-3 animate-fade-in">
-                                        <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">Groq Model Selection</label>
+                                        <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">{activeProvider.label} Model Selection</label>
                                         <div className="grid grid-cols-2 gap-2">
+                                            {activeProvider.models.map(m => (
+                                                <button
+                                                    key={m.id}
+                                                    onClick={() => setProviderModel(activeProvider.id, m.id)}
+                                                    className={`py-2.5 rounded-xl text-[10px] font-black transition-all ${activeModelId === m.id ? MODEL_ACTIVE[m.accent || activeProvider.accent] : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)]'}`}
+                                                >
+                                                    {m.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {activeProvider.allowCustomModel && (
+                                    <div className="flex flex-col gap-3 animate-fade-in">
+                                        <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">Model Name</label>
+                                        <input
+                                            type="text"
+                                            value={providerModels[activeProvider.id] ?? ''}
+                                            placeholder={activeProvider.defaultModel}
+                                            onChange={(e) => setProviderModel(activeProvider.id, e.target.value)}
+                                            className="w-full px-4 py-2.5 rounded-xl bg-[var(--bg-card)] border border-[var(--border-muted)] text-xs font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+                                        />
+                                    </div>
+                                )}
+
+                                {activeProvider.settingFields?.map(field => (
+                                    <div key={field.key} className="flex flex-col gap-3 animate-fade-in">
+                                        <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">{field.label}</label>
+                                        <input
+                                            type={field.type}
+                                            value={activeSettings[field.key] ?? ''}
+                                            placeholder={field.placeholder}
+                                            onChange={(e) => setProviderSetting(activeProvider.id, field.key, e.target.value)}
+                                            className="w-full px-4 py-2.5 rounded-xl bg-[var(--bg-card)] border border-[var(--border-muted)] text-xs font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </section>
+
+                    {/* Embedding Section */}
+                    <section className="space-y-6">
+                        <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Memory Embeddings</h3>
+                        <div className="bg-[var(--bg-sidebar)]/30 rounded-3xl p-6 border border-[var(--border-muted)]">
+                            <div className="space-y-6">
+                                <div className="flex flex-col gap-3">
+                                    <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">Embedding Engine</label>
+                                    <div className="flex gap-2">
+                                        {embeddingService.list().map(p => (
                                             <button
-                                                onClick={() => setGroqModel('llama-3.3-70b-versatile')}
-                                                className={`py-2.5 rounded-xl text-[10px] font-black transition-all ${groqModel === 'llama-3.3-70b-versatile' ? 'bg-[var(--bg-card)] border-blue-500 text-blue-500' : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)]'}`}
+                                                key={p.id}
+                                                onClick={() => setEmbeddingConfig({ provider: p.id, model: p.defaultModel, settings: embeddingConfig.settings })}
+                                                className={`flex-1 py-3 rounded-xl text-xs font-black transition-all ${embeddingConfig.provider === p.id ? 'bg-blue-600 text-white shadow-lg' : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
                                             >
-                                                Llama 3.3 70B
+                                                {p.label}
                                             </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-[var(--text-main)] font-medium leading-relaxed px-1">{embeddingProvider.description}</p>
+                                </div>
+
+                                {embeddingProvider.allowCustomModel && (
+                                    <div className="flex flex-col gap-3 animate-fade-in">
+                                        <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">Embedding Model</label>
+                                        <input
+                                            type="text"
+                                            value={embeddingConfig.model}
+                                            placeholder={embeddingProvider.defaultModel}
+                                            onChange={(e) => setEmbeddingConfig({ ...embeddingConfig, model: e.target.value })}
+                                            className="w-full px-4 py-2.5 rounded-xl bg-[var(--bg-card)] border border-[var(--border-muted)] text-xs font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+                                        />
+                                    </div>
+                                )}
+
+                                {embeddingProvider.settingFields?.map(field => (
+                                    <div key={field.key} className="flex flex-col gap-3 animate-fade-in">
+                                        <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">{field.label}</label>
+                                        <input
+                                            type={field.type}
+                                            value={embeddingConfig.settings[field.key] ?? ''}
+                                            placeholder={field.placeholder}
+                                            onChange={(e) => setEmbeddingConfig({ ...embeddingConfig, settings: { ...embeddingConfig.settings, [field.key]: e.target.value } })}
+                                            className="w-full px-4 py-2.5 rounded-xl bg-[var(--bg-card)] border border-[var(--border-muted)] text-xs font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+                                        />
+                                    </div>
+                                ))}
+
+                                <p className="text-[10px] text-[var(--text-main)]/60 font-medium leading-relaxed px-1">
+                                    Documents are only searchable with the model that indexed them. After switching engines, VORA offers to re-index existing documents from their stored text.
+                                </p>
+                            </div>
+                        </div>
+                    </section>
+
+                    <section className="space-y-6">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Chunking</h3>
+                            <button
+                                onClick={() => setChunkerSettings(chunkingService.getDefaultSettings())}
+                                className="text-[9px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors"
+                            >
+                                Reset Defaults
+                            </button>
+                        </div>
+                        <div className="bg-[var(--bg-sidebar)]/30 rounded-3xl p-6 border border-[var(--border-muted)]">
+                            <div className="space-y-6">
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    {CHUNKER_FIELDS.map(field => (
+                                        <NumberField
+                                            key={field.key}
+                                            label={field.label}
+                                            value={chunkerSettings[field.key]}
+                                            min={field.min}
+                                            max={field.max}
+                                            step={field.step}
+                                            integer
+                                            onCommit={(value) => setChunkerSettings({ ...chunkerSettings, [field.key]: value })}
+                                        />
+                                    ))}
+                                </div>
+
+                                <p className="text-[10px] text-[var(--text-main)]/60 font-medium leading-relaxed px-1">
+                                    Documents are split along headings, paragraphs and code definitions, and each chunk repeats the tail of the previous one. Changing these sizes flags existing documents for re-indexing.
+                                </p>
+                            </div>
+                        </div>
+                    </section>
+
+                    <section className="space-y-6">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Retrieval</h3>
+                            <button
+                                onClick={() => setRetrievalSettings(retrievalService.getDefaultSettings())}
+                                className="text-[9px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors"
+                            >
+                                Reset Defaults
+                            </button>
+                        </div>
+                        <div className="bg-[var(--bg-sidebar)]/30 rounded-3xl p-6 border border-[var(--border-muted)]">
+                            <div className="space-y-6">
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    {RETRIEVAL_FIELDS.map(field => (
+                                        <NumberField
+                                            key={field.key}
+                                            label={field.label}
+                                            value={retrievalSettings[field.key]}
+                                            min={field.min}
+                                            max={field.max}
+                                            step={field.step}
+                                            onCommit={(value) => setRetrievalSettings({ ...retrievalSettings, [field.key]: value })}
+                                        />
+                                    ))}
+                                </div>
+
+                                <div className="flex flex-col gap-3">
+                                    <label className="text-[10px] font-black text-[var(--text-main)]/60 uppercase px-1">Reranker</label>
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                        {[{ id: 'none' as const, label: 'Off' }, ...rerankService.list()].map(r => (
                                             <button
-                                                onClick={() => setGroqModel('openai/gpt-oss-120b')}
-                                                className={`py-2.5 rounded-xl text-[10px] font-black transition-all ${groqModel === 'openai/gpt-oss-120b' ? 'bg-[var(--bg-card)] border-purple-500 text-purple-500' : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)]'}`}
+                                                key={r.id}
+                                                onClick={() => setRetrievalSettings({ ...retrievalSettings, reranker: r.id })}
+                                                className={`py-3 rounded-xl text-xs font-black transition-all ${retrievalSettings.reranker === r.id ? 'bg-blue-600 text-white shadow-lg' : 'bg-[var(--bg-card)] border border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
                                             >
-                                                GPT OSS 120B
+                                                {r.label}
                                             </button>
-                                        </div>
+                                        ))}
                                     </div>
-                                )}
+                                    <p className="text-[10px] text-[var(--text-main)] font-medium leading-relaxed px-1">
+                                        {rerankService.get(retrievalSettings.reranker)?.description || 'Candidates keep their fused vector + keyword order.'}
+                                    </p>
+                                    {rerankService.get(retrievalSettings.reranker)?.remote && (
+                                        <p className="text-[10px] text-amber-500 font-bold leading-relaxed px-1">
+                                            Snippets from your documents leave this browser with every question.
+                                        </p>
+                                    )}
+                                </div>
+
+                                <p className="text-[10px] text-[var(--text-main)]/60 font-medium leading-relaxed px-1">
+                                    Lower MMR lambda to favour variety over near-duplicate passages from the same document. Chunks beyond the token budget are left out of the prompt.
+                                </p>
                             </div>
                         </div>
                     </section>
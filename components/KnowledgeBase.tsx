@@ -1,167 +1,138 @@
 
-import React, { useState, useCallback } from 'react';
-import { Document, DocumentChunk, AIProvider } from '../types';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Document, DocumentIndexState, AIProvider, IngestionJob, WebImportSettings } from '../types';
 import { storageService } from '../services/storageService';
-import { geminiService } from '../services/geminiService';
-import * as pdfjs from 'pdfjs-dist';
-import mammoth from 'mammoth';
+import { vectorIndexService } from '../services/vectorIndexService';
+import { scopeService } from '../services/scopeService';
+import { webImportService } from '../services/webImportService';
+import { fileImportService, ImportEntry, SkippedFile, SUPPORTED_EXTENSIONS } from '../services/fileImportService';
+import { ingestionService } from '../services/ingestionService';
+import DocumentHistory from './DocumentHistory';
+import DocumentDetail from './DocumentDetail';
 
-// Initialize PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.mjs`;
+// Longer skip lists are cut off in the import report
+const MAX_REPORTED_SKIPS = 15;
 
 interface KnowledgeBaseProps {
   documents: Document[];
   setDocuments: React.Dispatch<React.SetStateAction<Document[]>>;
-  setChunks: React.Dispatch<React.SetStateAction<DocumentChunk[]>>;
+  setIndexStates: React.Dispatch<React.SetStateAction<Record<string, DocumentIndexState>>>;
   provider: AIProvider;
 }
 
-const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments, setChunks, provider }) => {
+const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments, setIndexStates, provider }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [progress, setProgress] = useState('');
   const [useVision, setUseVision] = useState(false);
-
-  const chunkMarkdown = (text: string): string[] => {
-    const sections = text.split(/(?=^#{1,3}\s)/m);
-    const result: string[] = [];
-
-    sections.forEach(section => {
-      if (section.length < 1500) {
-        if (section.trim()) result.push(section.trim());
-      } else {
-        const paras = section.split(/\n\n+/);
-        let currentChunk = "";
-        paras.forEach(para => {
-          if ((currentChunk.length + para.length) > 1500) {
-            if (currentChunk) result.push(currentChunk.trim());
-            currentChunk = para;
-          } else {
-            currentChunk += (currentChunk ? "\n\n" : "") + para;
-          }
-        });
-        if (currentChunk) result.push(currentChunk.trim());
+  const [editingLabelsId, setEditingLabelsId] = useState<string | null>(null);
+  const [categoryDraft, setCategoryDraft] = useState('');
+  const [tagsDraft, setTagsDraft] = useState('');
+  const [isUrlFormOpen, setIsUrlFormOpen] = useState(false);
+  const [urlDraft, setUrlDraft] = useState('');
+  const [webSettings, setWebSettings] = useState<WebImportSettings>(webImportService.getSettings());
+  const [jobs, setJobs] = useState<IngestionJob[]>(ingestionService.getJobs());
+  const [historyDocId, setHistoryDocId] = useState<string | null>(null);
+  const [openDocId, setOpenDocId] = useState<string | null>(null);
+
+  useEffect(() => ingestionService.subscribe({ onJobs: setJobs }), []);
+
+  const failedJobCount = jobs.filter(j => j.status === 'failed').length;
+  // Looked up by id so the history follows the document when a newer version lands
+  const historyDoc = documents.find(d => d.id === historyDocId);
+  const openDoc = documents.find(d => d.id === openDocId);
+
+  const createDocId = () => Date.now().toString() + Math.random().toString(36).substr(2, 5);
+
+  // `unreadable` lists dropped items that could not be read, for the import report
+  const processFiles = async (input: ImportEntry[], unreadable: SkippedFile[] = []) => {
+    setIsProcessing(true);
+    setProgress(`Scanning ${input.length} item${input.length === 1 ? '' : 's'}...`);
+    try {
+      const collected = await fileImportService.collect(input);
+      setProgress(`Checking ${collected.entries.length} file${collected.entries.length === 1 ? '' : 's'} for duplicates...`);
+      // Identical files are skipped; changed files with a known path become new versions
+      const { queued, updated, skipped } = await ingestionService.enqueueFiles(collected.entries, documents, { useVision });
+      skipped.unshift(...unreadable, ...collected.skipped);
+
+      // One report for the whole batch instead of an alert per file
+      if (skipped.length > 0) {
+        const shown = skipped.slice(0, MAX_REPORTED_SKIPS).map(s => `• ${s.path}: ${s.reason}`).join('\n');
+        const more = skipped.length > MAX_REPORTED_SKIPS ? `\n…and ${skipped.length - MAX_REPORTED_SKIPS} more` : '';
+        const versions = updated > 0 ? ` (${updated} as new version${updated === 1 ? '' : 's'})` : '';
+        alert(`Queued ${queued} file${queued === 1 ? '' : 's'}${versions}, skipped ${skipped.length}:\n\n${shown}${more}`);
       }
-    });
-
-    return result;
-  };
-
-  const extractTextStandardPDF = async (file: File): Promise<string> => {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-    let fullText = '';
-
-    for (let i = 1; i <= pdf.numPages; i++) {
-      setProgress(`Fast-Scanning PDF Page ${i}/${pdf.numPages}...`);
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
-      fullText += `## Page ${i}\n\n${pageText}\n\n`;
+    } catch (err: any) {
+      console.error("Error queueing files:", err);
+      alert(`Failed to queue the files: ${err.message}`);
     }
-    return fullText;
+    setIsProcessing(false);
+    setProgress('');
   };
 
-  const extractTextMultimodal = async (file: File): Promise<string> => {
-    if (file.type === 'application/pdf') {
-      if (!useVision) {
-        return await extractTextStandardPDF(file);
-      }
-
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-      let fullMarkdown = '';
-
-      for (let i = 1; i <= pdf.numPages; i++) {
-        setProgress(`Vision Parsing Page ${i}/${pdf.numPages}...`);
-        const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 2.0 });
-
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        // Fix: Removed 'canvas' from parameters as it is not part of the standard RenderParameters type
-        await page.render({ canvasContext: context!, viewport }).promise;
-        const base64Image = canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
-
-        const pageMarkdown = await geminiService.processPageWithVision(base64Image);
-        fullMarkdown += pageMarkdown + '\n\n';
-      }
-      return fullMarkdown;
-    }
-
-    if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      setProgress(`Parsing Word Document...`);
-      const arrayBuffer = await file.arrayBuffer();
-      // Fix: Cast mammoth to any to bypass strict type checking for property access in ESM
-      const result = await (mammoth as any).convertToMarkdown({ arrayBuffer });
-      return result.value;
+  const importFromUrl = async () => {
+    let startUrl: URL;
+    try {
+      startUrl = new URL(urlDraft.trim());
+      if (!/^https?:$/.test(startUrl.protocol)) throw new Error();
+    } catch {
+      alert("Enter a full http(s) address, e.g. https://example.com/docs/intro");
+      return;
     }
 
-    setProgress(`Reading Text Data...`);
-    return await file.text();
-  };
-
-  const processFiles = async (files: FileList | File[]) => {
+    storageService.saveWebImportSettings(webSettings);
+    setIsUrlFormOpen(false);
     setIsProcessing(true);
-    for (const file of Array.from(files)) {
-      try {
-        setProgress(`Initializing ${file.name}...`);
-        const content = await extractTextMultimodal(file);
-
-        const docId = Date.now().toString() + Math.random().toString(36).substr(2, 5);
-        let docType: any = 'text';
-        if (file.name.endsWith('.pdf')) docType = 'pdf';
-        else if (file.name.endsWith('.docx')) docType = 'docx';
-        else if (file.name.endsWith('.md')) docType = 'markdown';
-        else if (file.name.endsWith('.html') || file.name.endsWith('.htm')) docType = 'html';
-        else if (['.py', '.js', '.ts', '.tsx', '.json', '.css'].some(ext => file.name.endsWith(ext))) docType = 'code';
-
-        const newDoc: Document = {
-          id: docId,
-          title: file.name,
-          content: content,
-          type: docType,
-          category: 'General',
-          tags: [],
-          createdAt: Date.now(),
-        };
-
-        setProgress(`Chunking Memory for ${file.name}...`);
-        const textChunks = chunkMarkdown(content);
-        const chunkObjects: DocumentChunk[] = [];
-
-        for (let i = 0; i < textChunks.length; i++) {
-          setProgress(`Embedding ${file.name} (${i + 1}/${textChunks.length})...`);
-          const embedding = await geminiService.getEmbedding(textChunks[i]);
-
-          chunkObjects.push({
-            id: `${docId}-chunk-${i}`,
-            docId,
-            docTitle: file.name,
-            text: textChunks[i],
-            embedding
-          });
-        }
-
-        await storageService.saveDocument(newDoc, chunkObjects);
-        setDocuments(prev => [newDoc, ...prev]);
-        setChunks(prev => [...prev, ...chunkObjects]);
-      } catch (err: any) {
-        console.error("Error processing file:", err);
-        alert(`Failed to process ${file.name}: ${err.message}.`);
+
+    // Pages already in the Memory Bank or the queue are not imported twice
+    const knownUrls = new Set([...documents.map(d => d.sourceUrl), ...ingestionService.getJobs().map(j => j.path)].filter(Boolean));
+    let added = 0;
+    let duplicates = 0;
+    try {
+      const { skipped } = await webImportService.crawl(
+        startUrl.toString(),
+        webSettings,
+        async page => {
+          if (knownUrls.has(page.url)) {
+            duplicates++;
+            return;
+          }
+          knownUrls.add(page.url);
+          const isQueued = await ingestionService.enqueueDocument({
+            id: createDocId(),
+            title: page.title,
+            content: page.markdown,
+            type: 'web',
+            category: new URL(page.url).hostname,
+            tags: [],
+            createdAt: Date.now(),
+            sourceUrl: page.url
+          }, documents);
+          if (isQueued) added++;
+          else duplicates++;
+        },
+        ({ fetched, queued, url }) => setProgress(`Fetching ${fetched + 1}${queued > 0 ? ` (+${queued} queued)` : ''} · ${url}`)
+      );
+      setUrlDraft('');
+      if (webSettings.crawl !== 'page') {
+        const notes = [
+          duplicates > 0 && `skipped ${duplicates} already in the Memory Bank`,
+          skipped.length > 0 && `skipped ${skipped.length} unreadable`
+        ].filter(Boolean);
+        alert(`Queued ${added} page${added === 1 ? '' : 's'}${notes.length > 0 ? `, ${notes.join(', ')}` : ''}.`);
+      } else if (duplicates > 0) {
+        alert(`${startUrl.toString()} is already in the Memory Bank, or a document with the same content is.`);
       }
+    } catch (err: any) {
+      console.error("Web import failed:", err);
+      alert(`Failed to import ${startUrl.toString()}: ${err.message}`);
     }
     setIsProcessing(false);
     setProgress('');
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) processFiles(e.target.files);
+    if (e.target.files) processFiles(fileImportService.fromFileList(e.target.files));
     e.target.value = '';
   };
 
@@ -178,21 +149,51 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files) processFiles(e.dataTransfer.files);
-  }, []);
+    // Entries are read before the first await: the DataTransfer is emptied once the handler returns
+    fileImportService.fromDataTransfer(e.dataTransfer)
+      .then(({ entries, skipped }) => processFiles(entries, skipped))
+      .catch(err => {
+        console.error("Reading dropped files failed:", err);
+        alert(`Failed to read the dropped files: ${err.message}`);
+      });
+  }, [useVision, documents]);
 
   const deleteDoc = async (id: string) => {
     if (confirm("Permanently delete this document from memory?")) {
       try {
         await storageService.deleteDocument(id);
+        await vectorIndexService.removeDocument(id);
         setDocuments(prev => prev.filter(d => d.id !== id));
-        setChunks(prev => prev.filter(c => c.docId !== id));
+        setIndexStates(prev => {
+          const { [id]: _removed, ...rest } = prev;
+          return rest;
+        });
       } catch (err) {
         console.error("Deletion failed:", err);
       }
     }
   };
 
+  const startEditingLabels = (doc: Document) => {
+    setEditingLabelsId(doc.id);
+    setCategoryDraft(doc.category || '');
+    setTagsDraft((doc.tags || []).join(', '));
+  };
+
+  const saveLabels = async (doc: Document) => {
+    const tags = Array.from(new Set(
+      tagsDraft.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean)
+    ));
+    const updated: Document = { ...doc, category: categoryDraft.trim() || 'General', tags };
+    try {
+      await storageService.updateDocument(updated);
+      setDocuments(prev => prev.map(d => d.id === doc.id ? updated : d));
+      setEditingLabelsId(null);
+    } catch (err) {
+      console.error("Failed to update labels:", err);
+    }
+  };
+
   return (
     <div
       className={`p-5 lg:p-10 h-full overflow-y-auto max-w-7xl mx-auto flex flex-col transition-all duration-300 ${isDragging ? 'bg-blue-600/5' : ''}`}
@@ -228,12 +229,20 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
             </button>
           </div>
 
+          <button
+            onClick={() => setIsUrlFormOpen(!isUrlFormOpen)}
+            disabled={isProcessing}
+            className={`px-5 py-4 rounded-2xl text-[11px] font-black tracking-widest uppercase transition-all border active:scale-95 ${isUrlFormOpen ? 'bg-blue-500/10 border-blue-500/30 text-blue-500' : 'bg-[var(--bg-card)] border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            Add URL
+          </button>
+
           <label className={`flex-1 sm:flex-none text-center cursor-pointer bg-blue-600 hover:bg-blue-500 text-white px-8 py-4 rounded-2xl text-[11px] font-black tracking-widest uppercase transition-all shadow-xl active:scale-95 ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}>
             {isProcessing ? 'Syncing...' : 'Upload Data'}
             <input
               type="file"
               className="hidden"
-              accept=".txt,.md,.pdf,.docx,.html,.htm,.py,.js,.ts,.tsx,.json,.css"
+              accept={[...SUPPORTED_EXTENSIONS, '.zip'].join(',')}
               multiple
               onChange={handleFileUpload}
               disabled={isProcessing}
@@ -242,6 +251,80 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
         </div>
       </div>
 
+      {isUrlFormOpen && !isProcessing && (
+        <div className="mb-8 p-6 rounded-[1.5rem] bg-[var(--bg-card)] border border-[var(--border-muted)] space-y-4 animate-fade-in">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="url"
+              value={urlDraft}
+              autoFocus
+              placeholder="https://example.com/docs/getting-started"
+              onChange={(e) => setUrlDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') importFromUrl(); }}
+              className="flex-1 px-4 py-3 rounded-xl bg-[var(--bg-deep)] border border-[var(--border-muted)] text-xs font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+            />
+            <button
+              onClick={importFromUrl}
+              disabled={!urlDraft.trim()}
+              className="px-6 py-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+            >
+              Import
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {([['page', 'This Page'], ['links', 'Follow Links'], ['sitemap', 'Sitemap']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setWebSettings({ ...webSettings, crawl: mode })}
+                className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${webSettings.crawl === mode ? 'bg-blue-600 text-white' : 'bg-[var(--bg-sidebar)] text-[var(--text-main)] hover:text-[var(--text-heading)]'}`}
+              >
+                {label}
+              </button>
+            ))}
+            {webSettings.crawl === 'links' && (
+              <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-[var(--text-main)]">
+                Depth
+                <input
+                  type="number"
+                  min={1}
+                  max={3}
+                  value={webSettings.maxDepth}
+                  onChange={(e) => setWebSettings({ ...webSettings, maxDepth: Math.min(3, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="w-14 px-2 py-1 rounded-lg bg-[var(--bg-deep)] border border-[var(--border-muted)] text-[11px] font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50"
+                />
+              </label>
+            )}
+            {webSettings.crawl !== 'page' && (
+              <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-[var(--text-main)]">
+                Max Pages
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={webSettings.maxPages}
+                  onChange={(e) => setWebSettings({ ...webSettings, maxPages: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="w-16 px-2 py-1 rounded-lg bg-[var(--bg-deep)] border border-[var(--border-muted)] text-[11px] font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <input
+              type="text"
+              value={webSettings.proxyUrl}
+              placeholder="CORS proxy (optional), e.g. https://corsproxy.io/?url={url}"
+              onChange={(e) => setWebSettings({ ...webSettings, proxyUrl: e.target.value })}
+              className="w-full px-4 py-2.5 rounded-xl bg-[var(--bg-deep)] border border-[var(--border-muted)] text-[11px] font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+            />
+            <p className="text-[10px] text-[var(--text-main)] font-medium leading-relaxed opacity-60 px-1">
+              Most sites block direct requests from the browser. Pages then go through the proxy, which sees the URLs you import. Links are only followed on the same site, below the starting folder.
+            </p>
+          </div>
+        </div>
+      )}
+
       {isProcessing && (
         <div className="mb-8 p-6 border rounded-[1.5rem] flex items-center gap-4 animate-pulse bg-blue-900/10 border-blue-500/20 text-blue-500">
           <div className="w-6 h-6 border-2 rounded-full animate-spin border-blue-500 border-t-transparent"></div>
@@ -249,6 +332,58 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
         </div>
       )}
 
+      {jobs.length > 0 && (
+        <div className="mb-8 p-6 rounded-[1.5rem] bg-[var(--bg-card)] border border-[var(--border-muted)] space-y-3 animate-fade-in">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-black uppercase tracking-widest text-[var(--text-heading)]">Import Queue · {jobs.length}</span>
+            {failedJobCount > 0 && (
+              <button
+                onClick={() => ingestionService.retry()}
+                className="text-[8px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-400 transition-colors"
+              >
+                Retry {failedJobCount} Failed
+              </button>
+            )}
+          </div>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2">
+            {jobs.map(job => (
+              <div key={job.id} className="flex items-center gap-3 px-4 py-2.5 rounded-xl bg-[var(--bg-deep)] border border-[var(--border-muted)]">
+                <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${job.status === 'failed' ? 'bg-red-500' : job.status === 'queued' ? 'bg-[var(--text-main)] opacity-40' : 'bg-blue-500 animate-pulse'}`}></span>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-[11px] font-bold text-[var(--text-heading)] truncate" title={job.path}>{job.path}</p>
+                  <p className={`text-[9px] font-bold truncate ${job.status === 'failed' ? 'text-red-500' : 'text-[var(--text-main)] opacity-70'}`} title={job.error}>
+                    {job.status === 'failed'
+                      ? `${job.error}${job.embedded > 0 ? ` · ${job.embedded}/${job.totalChunks} chunks kept` : ''}`
+                      : job.status === 'queued' ? 'Waiting' : job.progress}
+                  </p>
+                  {job.status === 'embedding' && job.totalChunks > 0 && (
+                    <div className="h-1 rounded-full bg-[var(--border-muted)] overflow-hidden">
+                      <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round((job.embedded / job.totalChunks) * 100)}%` }}></div>
+                    </div>
+                  )}
+                </div>
+                {job.status === 'failed' && (
+                  <button
+                    onClick={() => ingestionService.retry(job.id)}
+                    className="text-[8px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-400 transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'queued') && (
+                  <button
+                    onClick={() => ingestionService.remove(job.id)}
+                    className="text-[8px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-red-500 transition-colors"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {isDragging && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-blue-600/10 backdrop-blur-sm pointer-events-none">
           <div className="bg-[var(--bg-card)] border-2 border-dashed border-blue-500 p-20 rounded-[4rem] shadow-2xl flex flex-col items-center gap-6">
@@ -260,6 +395,18 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
         </div>
       )}
 
+      {openDoc && (
+        <DocumentDetail document={openDoc} job={jobs.find(j => j.id === openDoc.id)} onClose={() => setOpenDocId(null)} />
+      )}
+
+      {historyDoc && (
+        <DocumentHistory document={historyDoc} onClose={() => setHistoryDocId(null)} />
+      )}
+
+      <datalist id="vora-categories">
+        {scopeService.getCategories(documents).map(c => <option key={c} value={c} />)}
+      </datalist>
+
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 pb-24">
         {documents.length === 0 ? (
           <div className="col-span-full py-40 border-2 border-dashed border-[var(--border-muted)] rounded-[3rem] flex flex-col items-center justify-center text-[var(--text-main)] group hover:border-blue-500/30 transition-all">
@@ -268,20 +415,28 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
             </div>
             <p className="text-xl font-black text-[var(--text-heading)] opacity-40 tracking-tight uppercase">Empty Memory Bank</p>
             <p className="text-sm mt-3 text-[var(--text-main)] px-10 text-center font-medium max-w-sm leading-relaxed opacity-60">
-              Standard parsing for text, code, and simple docs is near-instant. <b>PDF Vision</b> is an optional toggle for complex research layouts.
+              Drop files, whole folders or .zip archives here; folder paths become categories. <b>PDF Vision</b> is an optional toggle for complex research layouts.
             </p>
           </div>
         ) : (
           documents.map(doc => (
             <div key={doc.id} className="bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-[2rem] p-7 hover:border-blue-500/30 transition-all group relative overflow-hidden shadow-sm">
               <div className="flex items-start justify-between mb-8">
-                <div className={`w-12 h-12 rounded-2xl flex items-center justify-center shadow-lg ${doc.type === 'pdf' ? 'bg-red-500/10 text-red-500' :
-                  doc.type === 'docx' ? 'bg-blue-500/10 text-blue-500' :
-                    doc.type === 'code' ? 'bg-emerald-500/10 text-emerald-500' :
-                      'bg-[var(--bg-sidebar)] text-[var(--text-main)]'
-                  }`}>
-                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-                </div>
+                {doc.thumbnail ? (
+                  <img src={doc.thumbnail} alt="" className="w-12 h-12 rounded-2xl object-cover shadow-lg border border-[var(--border-muted)]" />
+                ) : (
+                  <div className={`w-12 h-12 rounded-2xl flex items-center justify-center shadow-lg ${doc.type === 'pdf' ? 'bg-red-500/10 text-red-500' :
+                    doc.type === 'docx' ? 'bg-blue-500/10 text-blue-500' :
+                      doc.type === 'code' ? 'bg-emerald-500/10 text-emerald-500' :
+                        doc.type === 'web' ? 'bg-cyan-500/10 text-cyan-500' :
+                          doc.type === 'table' ? 'bg-amber-500/10 text-amber-500' :
+                            doc.type === 'image' ? 'bg-violet-500/10 text-violet-500' :
+                              doc.type === 'epub' ? 'bg-orange-500/10 text-orange-500' :
+                                'bg-[var(--bg-sidebar)] text-[var(--text-main)]'
+                    }`}>
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                  </div>
+                )}
                 <button
                   type="button"
                   onClick={(e) => {
@@ -296,18 +451,94 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ documents, setDocuments,
               </div>
 
               <div className="space-y-2">
-                <h3 className="font-black text-[var(--text-heading)] truncate text-lg" title={doc.title}>{doc.title}</h3>
+                <button
+                  onClick={() => setOpenDocId(doc.id)}
+                  className="block w-full text-left font-black text-[var(--text-heading)] truncate text-lg hover:text-blue-500 transition-colors"
+                  title={`Open ${doc.title}`}
+                >
+                  {doc.title}
+                </button>
+                {doc.sourceUrl && (
+                  <a
+                    href={doc.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-[10px] font-bold text-cyan-500 truncate hover:underline"
+                    title={doc.sourceUrl}
+                  >
+                    {doc.sourceUrl.replace(/^https?:\/\//, '')}
+                  </a>
+                )}
+                {doc.author && (
+                  <p className="text-[10px] font-bold text-[var(--text-main)] truncate" title={doc.author}>by {doc.author}</p>
+                )}
                 <p className="text-xs text-[var(--text-main)] line-clamp-2 font-medium leading-relaxed mb-6 opacity-80">
                   {doc.content.substring(0, 180)}...
                 </p>
               </div>
 
+              {editingLabelsId === doc.id ? (
+                <div className="space-y-2 animate-fade-in">
+                  <input
+                    type="text"
+                    value={categoryDraft}
+                    list="vora-categories"
+                    placeholder="Category"
+                    onChange={(e) => setCategoryDraft(e.target.value)}
+                    className="w-full px-3 py-2 rounded-xl bg-[var(--bg-deep)] border border-[var(--border-muted)] text-[11px] font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+                  />
+                  <input
+                    type="text"
+                    value={tagsDraft}
+                    placeholder="Tags, comma separated"
+                    onChange={(e) => setTagsDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveLabels(doc); }}
+                    className="w-full px-3 py-2 rounded-xl bg-[var(--bg-deep)] border border-[var(--border-muted)] text-[11px] font-bold text-[var(--text-heading)] focus:outline-none focus:border-blue-500/50 placeholder:text-[var(--text-main)]/40"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditingLabelsId(null)}
+                      className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-[var(--text-heading)] transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => saveLabels(doc)}
+                      className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-black uppercase tracking-widest transition-all"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => startEditingLabels(doc)}
+                  className="flex flex-wrap items-center gap-1.5 text-left group/labels"
+                  title="Edit category and tags"
+                >
+                  <span className="text-[9px] px-2 py-0.5 rounded-lg bg-blue-500/10 text-blue-500 font-black uppercase tracking-widest">{doc.category || 'General'}</span>
+                  {(doc.tags || []).map(tag => (
+                    <span key={tag} className="text-[9px] px-2 py-0.5 rounded-lg bg-[var(--bg-sidebar)] text-[var(--text-main)] font-bold">#{tag}</span>
+                  ))}
+                  <span className="text-[9px] font-black uppercase tracking-widest text-[var(--text-main)] opacity-0 group-hover/labels:opacity-60 transition-opacity">Edit</span>
+                </button>
+              )}
+
               <div className="flex items-center justify-between border-t border-[var(--border-muted)] pt-6 mt-6">
                 <div className="flex gap-2">
                   <span className="text-[8px] px-2 py-0.5 rounded-lg bg-[var(--bg-sidebar)] text-[var(--text-main)] font-black tracking-widest uppercase border border-[var(--border-muted)]">{doc.type}</span>
+                  {(doc.version || 1) > 1 && (
+                    <button
+                      onClick={() => setHistoryDocId(doc.id)}
+                      className="text-[8px] px-2 py-0.5 rounded-lg bg-blue-500/10 text-blue-500 font-black tracking-widest uppercase border border-blue-500/20 hover:bg-blue-500/20 transition-colors"
+                      title="Browse earlier versions"
+                    >
+                      v{doc.version}
+                    </button>
+                  )}
                 </div>
-                <span className="text-[10px] text-[var(--text-main)] opacity-40 font-black uppercase tracking-tight">
-                  {new Date(doc.createdAt).toLocaleDateString()}
+                <span className="text-[10px] text-[var(--text-main)] opacity-40 font-black uppercase tracking-tight" title={doc.updatedAt ? `Added ${new Date(doc.createdAt).toLocaleDateString()}` : undefined}>
+                  {new Date(doc.updatedAt || doc.createdAt).toLocaleDateString()}
                 </span>
               </div>
             </div>
@@ -0,0 +1,134 @@
+
+import React, { useState } from 'react';
+import { RetrievalCandidate, RetrievalTrace } from '../types';
+
+interface RetrievalInspectorProps {
+  trace: RetrievalTrace;
+}
+
+const formatScore = (score: number) => score.toFixed(3);
+// RRF scores are small reciprocals, so they need more precision to tell apart
+const formatFused = (score: number) => score.toFixed(4);
+
+const DROP_LABELS: Record<NonNullable<RetrievalCandidate['dropReason']>, { label: string; className: string }> = {
+  threshold: { label: 'Below threshold', className: 'bg-[var(--bg-sidebar)]' },
+  rerank: { label: 'Reranked out', className: 'bg-purple-500/10 text-purple-500' },
+  diversity: { label: 'Near-duplicate', className: 'bg-amber-500/10 text-amber-500' },
+  budget: { label: 'Over token budget', className: 'bg-amber-500/10 text-amber-500' }
+};
+
+// Traces recorded before drop reasons existed only know about the threshold and the rerank
+const getDropReason = (c: RetrievalCandidate) => c.dropReason || (c.passedThreshold ? 'rerank' : 'threshold');
+
+const RetrievalInspector: React.FC<RetrievalInspectorProps> = ({ trace }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const keptCount = trace.candidates.filter(c => c.rerankPosition !== undefined).length;
+
+  return (
+    <div className="flex flex-col gap-2 px-1 text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="self-start flex items-center gap-1.5 text-[8px] text-[var(--text-main)] font-bold uppercase tracking-widest opacity-60 hover:opacity-100 transition-opacity"
+      >
+        <svg className={`w-2.5 h-2.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" /></svg>
+        Retrieval Trace · {keptCount}/{trace.candidates.length} kept · {trace.totalMs}ms
+      </button>
+
+      {isOpen && (
+        <div className="rounded-2xl bg-[var(--bg-card)] border border-[var(--border-muted)] p-4 space-y-4 animate-fade-in">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Embedding', value: `${trace.embeddingMs}ms` },
+              { label: 'Searched', value: `${trace.searchedChunks} chunks` },
+              { label: 'Skipped', value: `${trace.skippedChunks} (other model)` },
+              { label: trace.reranker ? `Rerank · ${trace.reranker}` : 'Rerank', value: trace.rerankMs !== undefined ? `${trace.rerankMs}ms${trace.reranked ? '' : ' (kept order)'}` : 'not run' },
+            ].map(stat => (
+              <div key={stat.label} className="flex flex-col gap-0.5">
+                <span className="text-[8px] font-black text-[var(--text-main)]/60 uppercase tracking-widest">{stat.label}</span>
+                <span className="text-[10px] font-bold text-[var(--text-heading)]">{stat.value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-[9px] text-[var(--text-main)] font-medium">
+            <span className="font-black uppercase tracking-widest opacity-60 mr-2">Query</span>
+            <span className="mono">{trace.embeddingModel}</span> · "{trace.query}"
+          </div>
+
+          {trace.scope && (
+            <div className="text-[9px] text-[var(--text-main)] font-medium">
+              <span className="font-black uppercase tracking-widest opacity-60 mr-2">Scope</span>
+              {trace.scope.join(', ')}
+            </div>
+          )}
+
+          {trace.rewrite && (
+            <div className="text-[9px] text-[var(--text-main)] font-medium space-y-1">
+              <div>
+                <span className="font-black uppercase tracking-widest opacity-60 mr-2">Rewritten · {trace.rewrite.ms}ms</span>
+                "{trace.rewrite.standalone}"
+              </div>
+              {trace.rewrite.subQueries.map((q, i) => (
+                <div key={i} className="pl-3 opacity-80">
+                  <span className="font-black uppercase tracking-widest opacity-60 mr-2">Sub-query {i + 1}</span>
+                  "{q}"
+                </div>
+              ))}
+            </div>
+          )}
+
+          {trace.error && (
+            <div className="text-[10px] font-bold text-red-500">Retrieval failed: {trace.error}</div>
+          )}
+
+          {trace.candidates.length === 0 ? (
+            <p className="text-[10px] text-[var(--text-main)] opacity-60 font-medium">No comparable chunks in the Memory Bank.</p>
+          ) : (
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full text-[9px] text-[var(--text-main)]">
+                <thead>
+                  <tr className="text-left uppercase tracking-widest text-[8px] font-black opacity-60">
+                    <th className="py-1 pr-3">#</th>
+                    <th className="py-1 pr-3">Snippet</th>
+                    <th className="py-1 pr-3 text-right">Vector</th>
+                    <th className="py-1 pr-3 text-right">BM25</th>
+                    <th className="py-1 pr-3 text-right">Fused</th>
+                    <th className="py-1 pr-3 text-right">Rerank</th>
+                    <th className="py-1">Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trace.candidates.map((c, idx) => (
+                    <tr key={c.chunkId} className={`border-t border-[var(--border-muted)] align-top ${c.passedThreshold ? '' : 'opacity-50'}`}>
+                      <td className="py-2 pr-3 font-black">{idx + 1}</td>
+                      <td className="py-2 pr-3 max-w-[280px]">
+                        <div className="font-black text-[var(--text-heading)] truncate">{c.docTitle}</div>
+                        <div className="line-clamp-2 opacity-80">{c.preview}</div>
+                      </td>
+                      <td className="py-2 pr-3 text-right mono">{formatScore(c.vectorScore)}</td>
+                      <td className="py-2 pr-3 text-right mono">{formatScore(c.keywordScore)}</td>
+                      <td className="py-2 pr-3 text-right mono font-bold text-[var(--text-heading)]">{formatFused(c.hybridScore)}</td>
+                      <td className="py-2 pr-3 text-right mono">{c.rerankScore !== undefined ? formatScore(c.rerankScore) : '—'}</td>
+                      <td className="py-2 whitespace-nowrap">
+                        {c.rerankPosition !== undefined ? (
+                          <span className="px-1.5 py-0.5 rounded-md bg-green-500/10 text-green-500 font-black uppercase">Kept #{c.rerankPosition}</span>
+                        ) : (
+                          <span className={`px-1.5 py-0.5 rounded-md font-black uppercase ${DROP_LABELS[getDropReason(c)].className}`}>
+                            {DROP_LABELS[getDropReason(c)].label}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RetrievalInspector;
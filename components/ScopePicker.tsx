@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import { Document, RetrievalScope } from '../types';
+import { scopeService } from '../services/scopeService';
+
+interface ScopePickerProps {
+  documents: Document[];
+  scope: RetrievalScope;
+  setScope: (scope: RetrievalScope) => void;
+}
+
+const ScopePicker: React.FC<ScopePickerProps> = ({ documents, scope, setScope }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const categories = scopeService.getCategories(documents);
+  const tags = scopeService.getTags(documents);
+  const isScoped = !scopeService.isEmpty(scope);
+  const scopedCount = scopeService.resolveDocIds(documents, scope)?.length;
+
+  const renderOption = (key: keyof RetrievalScope, value: string, label: string) => {
+    const isActive = scope[key].includes(value);
+    return (
+      <button
+        key={`${key}-${value}`}
+        onClick={() => setScope(scopeService.toggle(scope, key, value))}
+        className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-[11px] font-bold transition-all ${isActive ? 'bg-blue-600/10 text-blue-500' : 'text-[var(--text-main)] hover:bg-[var(--bg-sidebar)] hover:text-[var(--text-heading)]'}`}
+      >
+        <span className={`w-3 h-3 rounded border flex-shrink-0 flex items-center justify-center ${isActive ? 'bg-blue-600 border-blue-600' : 'border-[var(--border-muted)]'}`}>
+          {isActive && <svg className="w-2 h-2 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={4} d="M5 13l4 4L19 7" /></svg>}
+        </span>
+        <span className="truncate">{label}</span>
+      </button>
+    );
+  };
+
+  const renderGroup = (title: string, children: React.ReactNode[]) => children.length > 0 && (
+    <div className="space-y-1">
+      <span className="block px-3 text-[8px] font-black uppercase tracking-widest text-[var(--text-main)]/60">{title}</span>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border transition-all ${isScoped
+            ? 'bg-blue-500/10 border-blue-500/30 text-blue-500'
+            : 'bg-[var(--bg-card)] border-[var(--border-muted)] text-[var(--text-main)] hover:text-[var(--text-heading)]'
+          }`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+        <span className="text-[9px] font-black uppercase tracking-widest hidden sm:inline">
+          {isScoped ? `${scopedCount} Doc${scopedCount === 1 ? '' : 's'}` : 'All Memory'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-64 max-h-[60vh] overflow-y-auto custom-scrollbar z-40 bg-[var(--bg-card)] border border-[var(--border-muted)] rounded-2xl shadow-2xl p-2 space-y-3 animate-fade-in">
+            <div className="flex items-center justify-between px-3 pt-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-[var(--text-heading)]">Search Scope</span>
+              {isScoped && (
+                <button
+                  onClick={() => setScope(scopeService.empty())}
+                  className="text-[8px] font-black uppercase tracking-widest text-[var(--text-main)] hover:text-red-500 transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {documents.length === 0 ? (
+              <p className="px-3 pb-2 text-[10px] text-[var(--text-main)] font-medium">The Memory Bank is empty.</p>
+            ) : (
+              <>
+                {renderGroup('Categories', categories.map(c => renderOption('categories', c, c)))}
+                {renderGroup('Tags', tags.map(t => renderOption('tags', t, `#${t}`)))}
+                {renderGroup('Documents', documents.map(d => renderOption('docIds', d.id, d.title)))}
+              </>
+            )}
+
+            <p className="px-3 pb-1 text-[9px] text-[var(--text-main)]/60 font-medium leading-relaxed">
+              Tip: type @document or #tag in a message to scope just that question.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScopePicker;
@@ -0,0 +1,387 @@
+
+import { ChunkerSettings, Document } from '../types';
+import { storageService } from './storageService';
+import { tokenService } from './tokenService';
+
+// Bump whenever the splitting rules change so existing chunks get flagged for re-indexing.
+// The size settings are part of the recorded version for the same reason.
+const CHUNKER_ID = 'structured-v2';
+
+const DEFAULT_SETTINGS: ChunkerSettings = {
+  chunkTokens: 400,
+  overlapTokens: 60
+};
+
+const BREADCRUMB_SEPARATOR = ' › ';
+
+export interface ChunkPiece {
+  text: string;
+  headingPath: string[];
+}
+
+// A sentence, line or heading located by offsets into the document, so chunks stay verbatim slices of it
+interface Unit {
+  start: number;
+  end: number;
+  // Preferred place to start a new chunk (paragraph, list item, function...)
+  boundary: boolean;
+  path: string[];
+}
+
+interface Line {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+const LIST_OR_TABLE_LINE = /^\s*([-*+]\s|\d+[.)]\s|\|)/;
+const SENTENCE_END = /[.!?]["')\]]*\s+(?=\S)/g;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+// Past this many columns a pipe row is unreadable on its own, so rows become "Column: value" records
+const MAX_TABLE_COLUMNS = 8;
+
+const CODE_PATTERNS: Record<string, { topLevel?: RegExp; nested?: RegExp; attachable: RegExp }> = {
+  py: {
+    topLevel: /^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/,
+    nested: /^\s+(?:async\s+)?(def)\s+([A-Za-z_]\w*)/,
+    attachable: /^\s*(#|@)/
+  },
+  js: {
+    topLevel: /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+    nested: /^\s+(?:(?:public|private|protected|static|readonly|async|get|set)\s+)*(?!(?:if|for|while|switch|catch|return|function)\b)([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\([^)]*\)\s*(?::\s*[^{=]+)?\{\s*$/,
+    attachable: /^\s*(\/\/|\/\*|\*|@)/
+  },
+  css: {
+    topLevel: /^([^\s{}@][^{}]*|@media[^{]*)\{/,
+    attachable: /^\s*(\/\*|\*)/
+  }
+};
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  py: 'py', js: 'js', jsx: 'js', ts: 'js', tsx: 'js', mjs: 'js', cjs: 'js', css: 'css'
+};
+
+const splitLines = (content: string): Line[] => {
+  const lines: Line[] = [];
+  let start = 0;
+  content.split('\n').forEach(text => {
+    lines.push({ start, end: start + text.length, text });
+    start += text.length + 1;
+  });
+  return lines;
+};
+
+// Shrinks [start, end) so the slice neither starts nor ends with whitespace
+const trimRange = (content: string, start: number, end: number): [number, number] => {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return [start, end];
+};
+
+// Units longer than a whole chunk are cut at whitespace so packing always makes progress
+const capUnit = (content: string, unit: Unit, maxChars: number): Unit[] => {
+  if (unit.end - unit.start <= maxChars) return [unit];
+  const pieces: Unit[] = [];
+  let start = unit.start;
+  while (start < unit.end) {
+    let end = Math.min(start + maxChars, unit.end);
+    if (end < unit.end) {
+      const lastSpace = content.lastIndexOf(' ', end);
+      if (lastSpace > start + maxChars / 2) end = lastSpace;
+    }
+    const [s, e] = trimRange(content, start, end);
+    if (e > s) pieces.push({ ...unit, start: s, end: e, boundary: unit.boundary && pieces.length === 0 });
+    start = end;
+  }
+  return pieces;
+};
+
+const sentenceUnits = (content: string, start: number, end: number, path: string[]): Unit[] => {
+  const text = content.slice(start, end);
+  const units: Unit[] = [];
+  let from = 0;
+  SENTENCE_END.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text))) {
+    const [s, e] = trimRange(content, start + from, start + match.index + match[0].length);
+    if (e > s) units.push({ start: s, end: e, boundary: units.length === 0, path });
+    from = match.index + match[0].length;
+  }
+  const [s, e] = trimRange(content, start + from, end);
+  if (e > s) units.push({ start: s, end: e, boundary: units.length === 0, path });
+  return units;
+};
+
+// Markdown-ish prose: headings open sections, fenced code / lists / tables split by line, paragraphs by sentence
+const markdownSections = (content: string): Unit[][] => {
+  const sections: Unit[][] = [];
+  const headingStack: { level: number; title: string }[] = [];
+  let current: Unit[] = [];
+  let path: string[] = [];
+  let paragraph: Line[] = [];
+  let inFence = false;
+  let hasBody = false;
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const first = paragraph[0];
+    const last = paragraph[paragraph.length - 1];
+    if (paragraph.length > 1 && LIST_OR_TABLE_LINE.test(first.text)) {
+      paragraph.forEach((line, i) => {
+        const [s, e] = trimRange(content, line.start, line.end);
+        if (e > s) current.push({ start: s, end: e, boundary: i === 0 || LIST_OR_TABLE_LINE.test(line.text), path });
+      });
+    } else {
+      current.push(...sentenceUnits(content, first.start, last.end, path));
+    }
+    paragraph = [];
+    hasBody = true;
+  };
+
+  const closeSection = () => {
+    flushParagraph();
+    // A heading directly followed by a subheading only contributes to the breadcrumb
+    if (hasBody) sections.push(current);
+    current = [];
+    hasBody = false;
+  };
+
+  splitLines(content).forEach(line => {
+    if (FENCE_LINE.test(line.text)) {
+      flushParagraph();
+      inFence = !inFence;
+    }
+
+    if (inFence || FENCE_LINE.test(line.text)) {
+      const [s, e] = trimRange(content, line.start, line.end);
+      if (e > s) current.push({ start: s, end: e, boundary: FENCE_LINE.test(line.text) && inFence, path });
+      hasBody = true;
+      return;
+    }
+
+    const heading = line.text.match(HEADING_LINE);
+    if (heading) {
+      closeSection();
+      const level = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) headingStack.pop();
+      headingStack.push({ level, title: heading[2] });
+      path = headingStack.map(h => h.title);
+      const [s, e] = trimRange(content, line.start, line.end);
+      current.push({ start: s, end: e, boundary: true, path });
+      return;
+    }
+
+    if (line.text.trim()) paragraph.push(line);
+    else flushParagraph();
+  });
+
+  closeSection();
+  return sections;
+};
+
+// Source files: one unit per line, with chunk boundaries preferred at top-level definitions and methods
+const codeSections = (content: string, title: string): Unit[][] => {
+  const extension = title.split('.').pop()?.toLowerCase() || '';
+  const patterns = CODE_PATTERNS[LANGUAGE_BY_EXTENSION[extension]];
+  const lines = splitLines(content);
+
+  const boundaries = new Array(lines.length).fill(false);
+  const paths: string[][] = [];
+  let topSymbol: string | null = null;
+  let nestedSymbol: string | null = null;
+
+  lines.forEach((line, i) => {
+    const top = patterns?.topLevel && line.text.match(patterns.topLevel);
+    const nested = !top && patterns?.nested && line.text.match(patterns.nested);
+    if (top) {
+      topSymbol = top[2] ? `${top[1]} ${top[2]}` : top[1].trim();
+      nestedSymbol = null;
+      boundaries[i] = true;
+    } else if (nested) {
+      nestedSymbol = nested.length > 2 ? `${nested[1]} ${nested[2]}` : `${nested[1]}()`;
+      boundaries[i] = true;
+    }
+    paths.push([topSymbol, nestedSymbol].filter((s): s is string => !!s));
+  });
+
+  // Comments and decorators belong with the definition below them
+  for (let i = lines.length - 1; i > 0; i--) {
+    if (!boundaries[i] || !patterns) continue;
+    let j = i;
+    while (j > 0 && !boundaries[j - 1] && patterns.attachable.test(lines[j - 1].text)) j--;
+    if (j < i) {
+      boundaries[i] = false;
+      boundaries[j] = true;
+      for (let k = j; k < i; k++) paths[k] = paths[i];
+    }
+  }
+
+  const units: Unit[] = [];
+  lines.forEach((line, i) => {
+    const [s, e] = trimRange(content, line.start, line.end);
+    if (e > s) units.push({ start: s, end: e, boundary: boundaries[i], path: paths[i] });
+  });
+  return [units];
+};
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim());
+
+// Tables (type 'table'): whole rows only, every chunk repeats the header so a row never loses its column
+// names, and the breadcrumb carries the sheet and row range. Overlap is skipped: rows stand on their own.
+const tablePieces = (content: string, maxChars: number): ChunkPiece[] => {
+  const pieces: ChunkPiece[] = [];
+  const lines = splitLines(content).map(line => line.text);
+  let path: string[] = [];
+
+  // `firstRow` numbers the data rows for the breadcrumb; 0 means the lines are not table rows
+  const pack = (prefix: string, rows: string[], separator: string, firstRow: number) => {
+    const budget = Math.max(1, maxChars - prefix.length);
+    const pathFor = (from: number, to: number) =>
+      firstRow === 0 ? path : [...path, to > from ? `Rows ${from}–${to}` : `Row ${from}`];
+
+    let batch: string[] = [];
+    let batchStart = firstRow;
+    let size = 0;
+    const flush = (next: number) => {
+      if (batch.length > 0) pieces.push({ text: prefix + batch.join(separator), headingPath: pathFor(batchStart, next - 1) });
+      batch = [];
+      size = 0;
+      batchStart = next;
+    };
+
+    rows.forEach((row, i) => {
+      const rowNumber = firstRow + i;
+      if (batch.length > 0 && size + separator.length + row.length > budget) flush(rowNumber);
+      if (row.length > budget) {
+        // A row too long for a chunk on its own is cut so no chunk outgrows the embedding input
+        for (let at = 0; at < row.length; at += budget) {
+          pieces.push({ text: prefix + row.slice(at, at + budget), headingPath: pathFor(rowNumber, rowNumber) });
+        }
+        batchStart = rowNumber + 1;
+        return;
+      }
+      batch.push(row);
+      size += (batch.length > 1 ? separator.length : 0) + row.length;
+    });
+    flush(firstRow + rows.length);
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const heading = lines[i].match(HEADING_LINE);
+    if (heading) {
+      // Sheets are top-level sections; deeper headings nest under them
+      const level = heading[1].length;
+      path = [...path.slice(0, level - 1), heading[2]];
+      i++;
+      continue;
+    }
+
+    if (TABLE_ROW.test(lines[i]) && TABLE_SEPARATOR.test(lines[i + 1] || '')) {
+      let end = i + 2;
+      while (end < lines.length && TABLE_ROW.test(lines[end])) end++;
+      const header = splitTableRow(lines[i]);
+      const rows = lines.slice(i + 2, end).map(row => row.trim());
+      const headerPrefix = `${lines[i].trim()}\n${lines[i + 1].trim()}\n`;
+
+      // Wide tables, and headers that would leave too little room for rows when repeated, become records
+      if (header.length > MAX_TABLE_COLUMNS || headerPrefix.length > maxChars / 2) {
+        const records = rows.map(row => {
+          const cells = splitTableRow(row);
+          return header
+            .map((name, col) => cells[col] ? `${name}: ${cells[col].replace(/\\\|/g, '|')}` : '')
+            .filter(Boolean)
+            .join('\n');
+        });
+        pack('', records, '\n\n', 1);
+      } else {
+        pack(headerPrefix, rows, '\n', 1);
+      }
+      i = end;
+      continue;
+    }
+
+    // Notes between tables are kept as plain text
+    let end = i + 1;
+    while (end < lines.length && !HEADING_LINE.test(lines[end]) && !TABLE_ROW.test(lines[end])) end++;
+    const text = lines.slice(i, end).join('\n').trim();
+    if (text) pack('', [text], '', 0);
+    i = end;
+  }
+
+  return pieces;
+};
+
+// Greedy packing of units into chunks of at most `maxChars`, cutting at a boundary when one is
+// reasonably close to the end, and starting each chunk with the tail of the previous one
+const packSection = (content: string, units: Unit[], maxChars: number, overlapChars: number): ChunkPiece[] => {
+  const pieces: ChunkPiece[] = [];
+  const span = (from: number, to: number) => units[to - 1].end - units[from].start;
+
+  let start = 0;
+  let fresh = 0;
+  while (fresh < units.length) {
+    let end = start + 1;
+    while (end < units.length && span(start, end + 1) <= maxChars) end++;
+
+    if (end < units.length) {
+      for (let cut = end - 1; cut > fresh; cut--) {
+        if (units[cut].boundary && span(start, cut) >= maxChars / 2) {
+          end = cut;
+          break;
+        }
+      }
+    }
+
+    pieces.push({
+      text: content.slice(units[start].start, units[end - 1].end),
+      headingPath: units[fresh].path
+    });
+    if (end >= units.length) break;
+
+    let next = end;
+    while (next - 1 >= fresh && span(next - 1, end) <= overlapChars) next--;
+    // The overlap must leave room for at least one new unit
+    if (span(next, end + 1) > maxChars) next = end;
+    start = next;
+    fresh = end;
+  }
+
+  return pieces;
+};
+
+export const chunkingService = {
+  getDefaultSettings: (): ChunkerSettings => ({ ...DEFAULT_SETTINGS }),
+
+  getSettings: (): ChunkerSettings => ({ ...DEFAULT_SETTINGS, ...storageService.getChunkerSettings() }),
+
+  getVersion: (settings: ChunkerSettings = chunkingService.getSettings()): string =>
+    `${CHUNKER_ID}/${settings.chunkTokens}/${settings.overlapTokens}`,
+
+  chunkDocument: (doc: Pick<Document, 'title' | 'type' | 'content'>, settings: ChunkerSettings): ChunkPiece[] => {
+    const maxChars = tokenService.toChars(Math.max(1, settings.chunkTokens));
+    const overlapChars = Math.min(tokenService.toChars(Math.max(0, settings.overlapTokens)), maxChars / 2);
+
+    if (doc.type === 'table') return tablePieces(doc.content, maxChars);
+
+    const sections = doc.type === 'code'
+      ? codeSections(doc.content, doc.title)
+      : markdownSections(doc.content);
+
+    return sections
+      .map(units => units.flatMap(unit => capUnit(doc.content, unit, maxChars)))
+      .filter(units => units.length > 0)
+      .flatMap(units => packSection(doc.content, units, maxChars, overlapChars));
+  },
+
+  formatBreadcrumb: (docTitle: string, headingPath: string[] = []): string =>
+    [docTitle, ...headingPath].join(BREADCRUMB_SEPARATOR),
+
+  // What gets embedded: the breadcrumb gives short passages the context their headings carry
+  toEmbeddingText: (docTitle: string, piece: ChunkPiece): string =>
+    `${chunkingService.formatBreadcrumb(docTitle, piece.headingPath)}\n\n${piece.text}`
+};
@@ -0,0 +1,39 @@
+
+import { DocumentChunk, MessageCitation } from '../types';
+
+// Matches [1] and [1, 3] but not Markdown links like [1](url)
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+const HEADING_PATTERN = /^#{1,6}\s+.+$/gm;
+
+export const citationService = {
+  extractIndices: (marker: string): number[] =>
+    marker.split(',').map(n => parseInt(n.trim(), 10)).filter(n => !isNaN(n)),
+
+  // Resolves the [n] markers in a (possibly partial) answer to the numbered snippets it was given
+  parse: (text: string, relevantChunks: DocumentChunk[]): MessageCitation[] => {
+    const cited = new Map<number, MessageCitation>();
+
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      citationService.extractIndices(match[1]).forEach(index => {
+        const chunk = relevantChunks[index - 1];
+        if (chunk && !cited.has(index)) {
+          cited.set(index, { index, chunkId: chunk.id, docId: chunk.docId, docTitle: chunk.docTitle });
+        }
+      });
+    }
+
+    return Array.from(cited.values()).sort((a, b) => a.index - b.index);
+  },
+
+  // Heading the chunk sits under, e.g. "## Page 4": its own first line, else the last one before it
+  findHeading: (content: string, chunkText: string): string | null => {
+    const firstLine = chunkText.split('\n')[0].trim();
+    if (/^#{1,6}\s/.test(firstLine)) return firstLine;
+
+    const position = content.indexOf(chunkText);
+    if (position === -1) return null;
+
+    const headings = content.slice(0, position).match(HEADING_PATTERN);
+    return headings ? headings[headings.length - 1].trim() : null;
+  }
+};
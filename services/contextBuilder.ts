@@ -0,0 +1,192 @@
+
+import { ChatModelRef, ChatProvider, ConversationSummary, DocumentChunk, Message, ProviderSettings, UserProfile } from '../types';
+import { promptBuilder } from './promptBuilder';
+import { tokenService } from './tokenService';
+
+// Matches the max_tokens the providers request for a reply
+const MAX_OUTPUT_TOKENS = 4096;
+// Share of the input budget left after the instructions and the question that snippets may take
+const SNIPPET_SHARE = 0.5;
+// No single past turn may take more than this share of the history budget; long pastes get cut in the middle
+const MAX_TURN_SHARE = 0.25;
+// When turns start falling out, enough is summarised to free this share of the history budget,
+// so the summary is refreshed every few turns rather than on every one
+const FOLD_TARGET_SHARE = 0.5;
+// Role markers and separators around every replayed message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_MAX_WORDS = 250;
+const SUMMARY_TURN_CHARS = 2000;
+// Room for the 250-word summary plus a reasoning model's thinking
+const SUMMARY_MAX_TOKENS = 2048;
+
+export interface ContextInput {
+  query: string;
+  // Conversation before `query` on the active branch, oldest first
+  history: Message[];
+  summary?: ConversationSummary | null;
+  profile: UserProfile;
+  relevantChunks: DocumentChunk[];
+  allDocTitles: string[];
+  useSearch: boolean;
+  contextWindow: number;
+}
+
+export interface ContextUsage {
+  window: number;
+  reservedForReply: number;
+  instructions: number;
+  snippets: number;
+  summary: number;
+  history: number;
+  query: number;
+}
+
+export interface ContextPlan {
+  history: Message[];
+  relevantChunks: DocumentChunk[];
+  summary?: string;
+  // Oldest turns not covered by the summary that should be folded into it; empty while everything fits
+  foldable: Message[];
+  // Turns left out of this request entirely because they fit neither verbatim nor in the summary
+  omittedTurns: number;
+  usage: ContextUsage;
+}
+
+const messageTokens = (message: Message) => tokenService.estimate(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+// Keeps the start and end of an oversized message, which usually carry the question and the conclusion
+const truncateMessage = (message: Message, maxTokens: number): Message => {
+  const maxChars = tokenService.toChars(Math.max(0, maxTokens - MESSAGE_OVERHEAD_TOKENS));
+  if (message.content.length <= maxChars) return message;
+  const half = Math.floor(maxChars / 2);
+  return {
+    ...message,
+    content: `${message.content.slice(0, half)}\n\n[… ${message.content.length - 2 * half} characters omitted …]\n\n${message.content.slice(-half)}`
+  };
+};
+
+// A summary only applies while the branch being answered still contains the last turn it covers
+const applicableSummary = (history: Message[], summary?: ConversationSummary | null) => {
+  if (!summary) return null;
+  const index = history.findIndex(m => m.id === summary.throughId);
+  return index === -1 ? null : { summary, after: history.slice(index + 1) };
+};
+
+const buildSummaryPrompt = (previous: string | undefined, turns: Message[]): string => {
+  const transcript = turns
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.slice(0, SUMMARY_TURN_CHARS)}`)
+    .join('\n\n');
+
+  return `You maintain a running summary of a conversation between a user and an AI assistant, so the assistant can keep answering after older turns are dropped from its context.
+
+${previous ? `Summary so far:\n${previous}\n\n` : ''}Turns to add:
+${transcript}
+
+Write the updated summary in at most ${SUMMARY_MAX_WORDS} words. Keep names, numbers, definitions, decisions, the user's goals and any open questions; drop pleasantries and restated context. Write plain prose in the third person ("The user asked..."). Respond with the summary only.`;
+};
+
+export const contextBuilder = {
+  // Custom models (e.g. on a local server) fall back to the provider's default or the user's override
+  getContextWindow: (provider: ChatProvider, model: string, settings: ProviderSettings): number => {
+    const override = Number(settings.contextWindow);
+    if (Number.isFinite(override) && override > 0) return override;
+    return provider.models.find(m => m.id === model)?.contextWindow || provider.contextWindow;
+  },
+
+  // Splits the window between reply, instructions, snippets, summary and history, newest turns first
+  plan: (input: ContextInput): ContextPlan => {
+    const { query, history, profile, relevantChunks, allDocTitles, useSearch, contextWindow } = input;
+
+    const reservedForReply = Math.min(MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 2));
+    const instructions = tokenService.estimate(promptBuilder.buildSystemInstruction(profile, [], allDocTitles, useSearch));
+    const queryTokens = tokenService.estimate(query) + MESSAGE_OVERHEAD_TOKENS;
+    let available = Math.max(0, contextWindow - reservedForReply - instructions - queryTokens);
+
+    // Retrieval already budgets snippets; this only bites on small windows
+    const snippetBudget = Math.floor(available * SNIPPET_SHARE);
+    const chunks: DocumentChunk[] = [];
+    let snippetTokens = 0;
+    for (const chunk of relevantChunks) {
+      const tokens = tokenService.estimate(chunk.text) + MESSAGE_OVERHEAD_TOKENS;
+      if (snippetTokens + tokens > snippetBudget) break;
+      chunks.push(chunk);
+      snippetTokens += tokens;
+    }
+    available -= snippetTokens;
+
+    const applicable = applicableSummary(history, input.summary);
+    const summaryTokens = applicable ? tokenService.estimate(applicable.summary.text) : 0;
+    available = Math.max(0, available - summaryTokens);
+
+    const candidates = applicable ? applicable.after : history;
+    const turnCap = Math.floor(available * MAX_TURN_SHARE);
+    const kept: Message[] = [];
+    let historyTokens = 0;
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const message = truncateMessage(candidates[i], turnCap);
+      const tokens = messageTokens(message);
+      if (historyTokens + tokens > available) break;
+      kept.unshift(message);
+      historyTokens += tokens;
+    }
+
+    const omittedTurns = candidates.length - kept.length;
+    let foldable: Message[] = [];
+    if (omittedTurns > 0) {
+      // Fold the dropped turns plus the oldest kept ones until the rest sits under the target
+      let remaining = historyTokens;
+      let foldCount = omittedTurns;
+      while (foldCount < candidates.length - 1 && remaining > available * FOLD_TARGET_SHARE) {
+        remaining -= messageTokens(kept[foldCount - omittedTurns]);
+        foldCount++;
+      }
+      foldable = candidates.slice(0, foldCount);
+    }
+
+    return {
+      history: kept,
+      relevantChunks: chunks,
+      summary: applicable?.summary.text,
+      foldable,
+      omittedTurns,
+      usage: {
+        window: contextWindow,
+        reservedForReply,
+        instructions,
+        snippets: snippetTokens,
+        summary: summaryTokens,
+        history: historyTokens,
+        query: queryTokens
+      }
+    };
+  },
+
+  // Folds `turns` into the summary that applies to `history`; returns null if the model could not be asked
+  summarize: async (
+    history: Message[],
+    summary: ConversationSummary | null | undefined,
+    turns: Message[],
+    chat: ChatModelRef,
+    signal?: AbortSignal
+  ): Promise<ConversationSummary | null> => {
+    if (turns.length === 0 || !chat.provider.isConfigured(chat.settings)) return null;
+    const previous = applicableSummary(history, summary)?.summary.text;
+
+    try {
+      const text = (await chat.provider.complete({
+        prompt: buildSummaryPrompt(previous, turns),
+        model: chat.model,
+        settings: chat.settings,
+        signal,
+        maxTokens: SUMMARY_MAX_TOKENS
+      })).trim();
+      if (!text) return null;
+      return { text, throughId: turns[turns.length - 1].id, updatedAt: Date.now() };
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn("Conversation summary failed, older turns are dropped instead", err);
+      return null;
+    }
+  }
+};
@@ -0,0 +1,146 @@
+
+import { DocumentChunk, EmbeddingConfig, EmbeddingProvider, EmbeddingResult, ProviderSettings } from '../types';
+import { geminiService } from './geminiService';
+import { openaiCompatService } from './openaiCompatService';
+import { storageService } from './storageService';
+import { createWorkerClient } from './workerClient';
+
+const LEGACY_EMBEDDING_MODEL = 'gemini:text-embedding-004';
+const LOCAL_DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const GEMINI_MAX_BATCH = 100;
+
+let nextRequestId = 0;
+const pendingLocal = new Map<number, { resolve: (v: number[][]) => void; reject: (e: Error) => void }>();
+
+const getLocalWorker = createWorkerClient({
+  create: () => new Worker(new URL('../workers/embeddingWorker.ts', import.meta.url), { type: 'module' }),
+  name: 'The local embedding worker',
+  pending: pendingLocal,
+  onMessage: (event: MessageEvent<{ id: number; vectors?: number[][]; error?: string }>) => {
+    const { id, vectors, error } = event.data;
+    const pending = pendingLocal.get(id);
+    if (!pending) return;
+    pendingLocal.delete(id);
+    if (error || !vectors) pending.reject(new Error(error || 'Local embedding failed'));
+    else pending.resolve(vectors);
+  }
+});
+
+const geminiEmbeddingProvider: EmbeddingProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'text-embedding-004 via the Gemini API',
+  defaultModel: 'text-embedding-004',
+  isConfigured: () => !!process.env.API_KEY,
+  embed: async (texts, _model, _settings, signal) => {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += GEMINI_MAX_BATCH) {
+      vectors.push(...await geminiService.getEmbeddings(texts.slice(start, start + GEMINI_MAX_BATCH), signal));
+    }
+    return vectors;
+  }
+};
+
+const localEmbeddingProvider: EmbeddingProvider = {
+  id: 'local',
+  label: 'In-Browser',
+  description: 'Runs a small transformer model locally (WASM). Nothing leaves this device.',
+  defaultModel: LOCAL_DEFAULT_MODEL,
+  allowCustomModel: true,
+  isConfigured: () => typeof Worker !== 'undefined',
+  embed: (texts, model, _settings, signal) => {
+    const worker = getLocalWorker();
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+      pendingLocal.set(id, { resolve, reject });
+      worker.postMessage({ id, texts, model });
+      // WASM inference cannot be interrupted, but the caller no longer waits on it
+      signal?.addEventListener('abort', () => {
+        pendingLocal.delete(id);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+};
+
+const openaiCompatEmbeddingProvider: EmbeddingProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI API',
+  description: 'Any server exposing an OpenAI-style /embeddings endpoint (Ollama, llama.cpp, OpenAI).',
+  defaultModel: 'nomic-embed-text',
+  allowCustomModel: true,
+  settingFields: [
+    { key: 'baseUrl', label: 'Base URL', type: 'url', placeholder: 'http://localhost:11434/v1' },
+    { key: 'apiKey', label: 'API Key (optional)', type: 'password', placeholder: 'Leave empty for local servers' }
+  ],
+  isConfigured: (settings) => !!settings.baseUrl?.trim(),
+  embed: async (texts, model, settings, signal) => {
+    if (!settings.baseUrl) throw new Error("Embedding Base URL is missing.");
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(`${openaiCompatService.normalizeBaseUrl(settings.baseUrl)}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, input: texts }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      // The status lets the ingestion queue back off on rate limits instead of failing
+      throw Object.assign(new Error(errData?.error?.message || `Embedding API Error: ${response.statusText}`), { status: response.status });
+    }
+
+    const json = await response.json();
+    return (json.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+};
+
+const EMBEDDING_PROVIDERS: EmbeddingProvider[] = [geminiEmbeddingProvider, localEmbeddingProvider, openaiCompatEmbeddingProvider];
+
+export const embeddingService = {
+  list: (): EmbeddingProvider[] => EMBEDDING_PROVIDERS,
+
+  get: (id: string): EmbeddingProvider =>
+    EMBEDDING_PROVIDERS.find(p => p.id === id) || localEmbeddingProvider,
+
+  getConfig: (): EmbeddingConfig => {
+    const saved = storageService.getEmbeddingConfig();
+    if (saved) return saved;
+    // Keep existing Gemini indexes searchable; fall back to the local model when there is no key
+    const provider = process.env.API_KEY ? geminiEmbeddingProvider : localEmbeddingProvider;
+    return { provider: provider.id, model: provider.defaultModel, settings: {} };
+  },
+
+  // Qualified model id recorded on every chunk, e.g. "local:Xenova/all-MiniLM-L6-v2"
+  getModelKey: (config: EmbeddingConfig): string => {
+    const provider = embeddingService.get(config.provider);
+    return `${provider.id}:${config.model || provider.defaultModel}`;
+  },
+
+  getChunkModelKey: (chunk: Pick<DocumentChunk, 'embeddingModel'>): string => chunk.embeddingModel || LEGACY_EMBEDDING_MODEL,
+
+  isConfigured: (config: EmbeddingConfig = embeddingService.getConfig()): boolean =>
+    embeddingService.get(config.provider).isConfigured(config.settings),
+
+  embed: async (
+    texts: string[],
+    config: EmbeddingConfig = embeddingService.getConfig(),
+    signal?: AbortSignal
+  ): Promise<EmbeddingResult> => {
+    const provider = embeddingService.get(config.provider);
+    const model = config.model || provider.defaultModel;
+    const settings: ProviderSettings = config.settings || {};
+
+    const vectors = texts.length > 0 ? await provider.embed(texts, model, settings, signal) : [];
+    return {
+      vectors,
+      model: embeddingService.getModelKey(config),
+      dim: vectors[0]?.length || 0
+    };
+  }
+};
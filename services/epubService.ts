@@ -0,0 +1,138 @@
+
+import JSZip from 'jszip';
+import { htmlService } from './htmlService';
+
+// EPUB -> Markdown: chapters in spine (reading) order, each opened by a "# Chapter title" heading so the
+// structured chunker splits on chapter boundaries; the chapters' own headings are nested one level below.
+
+export interface Book {
+  title: string;
+  author?: string;
+  markdown: string;
+}
+
+interface TocEntry {
+  path: string;
+  title: string;
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+
+const text = (el: Element | null | undefined) => el?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+const parseXml = (xml: string, path: string): globalThis.Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`Malformed EPUB: ${path} is not valid XML.`);
+  return doc;
+};
+
+// Archive path of `href` relative to the file at `from`, without fragment or URL escapes
+const resolvePath = (from: string, href: string): string => {
+  const url = new URL(href, `http://epub/${from}`);
+  return decodeURIComponent(url.pathname.slice(1));
+};
+
+const readFile = async (zip: JSZip, path: string): Promise<string> => {
+  const file = zip.file(path);
+  if (!file) throw new Error(`Malformed EPUB: ${path} is missing.`);
+  return file.async('string');
+};
+
+// EPUB 3 navigation document, else the EPUB 2 NCX; only the first entry per file counts
+const readToc = async (zip: JSZip, opf: globalThis.Document, opfPath: string): Promise<Map<string, string>> => {
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const entries: TocEntry[] = [];
+
+  const nav = items.find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('nav'));
+  const ncx = items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+
+  if (nav) {
+    const navPath = resolvePath(opfPath, nav.getAttribute('href') || '');
+    const doc = htmlService.parse(await readFile(zip, navPath));
+    const navs = Array.from(doc.querySelectorAll('nav'));
+    const toc = navs.find(n => n.getAttribute('epub:type') === 'toc') || navs[0];
+    toc?.querySelectorAll('a[href]').forEach(a => {
+      entries.push({ path: resolvePath(navPath, a.getAttribute('href')!), title: text(a) });
+    });
+  } else if (ncx) {
+    const ncxPath = resolvePath(opfPath, ncx.getAttribute('href') || '');
+    const doc = parseXml(await readFile(zip, ncxPath), ncxPath);
+    Array.from(doc.getElementsByTagName('navPoint')).forEach(point => {
+      const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+      if (src) entries.push({ path: resolvePath(ncxPath, src), title: text(point.getElementsByTagName('text')[0]) });
+    });
+  }
+
+  const titles = new Map<string, string>();
+  entries.forEach(entry => {
+    if (entry.title && !titles.has(entry.path)) titles.set(entry.path, entry.title);
+  });
+  return titles;
+};
+
+// Nests a chapter's headings under its "#" title; drops the chapter's own copy of that title
+const nestChapter = (markdown: string, title: string): string => {
+  let inFence = false;
+  let droppedTitle = false;
+  return markdown
+    .split('\n')
+    .flatMap(line => {
+      if (FENCE_LINE.test(line)) inFence = !inFence;
+      const heading = !inFence && line.match(HEADING_LINE);
+      if (!heading) return [line];
+      if (!droppedTitle && heading[2].toLowerCase() === title.toLowerCase()) {
+        droppedTitle = true;
+        return [];
+      }
+      return [`${'#'.repeat(Math.min(6, heading[1].length + 1))} ${heading[2]}`];
+    })
+    .join('\n')
+    .trim();
+};
+
+export const epubService = {
+  isEpubFile: (name: string): boolean => name.toLowerCase().endsWith('.epub'),
+
+  extract: async (file: File, onProgress?: (status: string) => void): Promise<Book> => {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    if (zip.file('META-INF/encryption.xml')) {
+      // Font obfuscation also lives here, so only refuse when content documents are encrypted
+      const encryption = await readFile(zip, 'META-INF/encryption.xml');
+      if (/\.x?html?["'#]/i.test(encryption)) throw new Error('This e-book is DRM-protected and cannot be read.');
+    }
+
+    const container = parseXml(await readFile(zip, 'META-INF/container.xml'), 'META-INF/container.xml');
+    const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath) throw new Error('Malformed EPUB: no package document.');
+    const opf = parseXml(await readFile(zip, opfPath), opfPath);
+
+    const title = text(opf.getElementsByTagNameNS('*', 'title')[0]) || file.name.replace(/\.epub$/i, '');
+    const authors = Array.from(opf.getElementsByTagNameNS('*', 'creator')).map(el => text(el)).filter(Boolean);
+
+    const manifest = new Map(Array.from(opf.getElementsByTagName('item')).map(item => [item.getAttribute('id'), item]));
+    const spine = Array.from(opf.getElementsByTagName('itemref'))
+      .filter(ref => ref.getAttribute('linear') !== 'no')
+      .map(ref => manifest.get(ref.getAttribute('idref')))
+      .filter((item): item is Element => !!item && /x?html/.test(item.getAttribute('media-type') || ''))
+      .map(item => resolvePath(opfPath, item.getAttribute('href') || ''));
+
+    const toc = await readToc(zip, opf, opfPath);
+    const chapters: string[] = [];
+    for (const [i, path] of spine.entries()) {
+      onProgress?.(`Reading ${title} (${i + 1}/${spine.length})...`);
+      const markdown = htmlService.contentToMarkdown(await readFile(zip, path));
+      if (!markdown) continue;
+
+      // Files missing from the table of contents continue the chapter before them (split chapters,
+      // footnotes); without a usable table of contents every file is a chapter of its own
+      const firstHeading = markdown.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m)?.[1];
+      const chapterTitle = toc.get(path) || (toc.size === 0 || chapters.length === 0 ? firstHeading : undefined);
+      chapters.push(chapterTitle ? `# ${chapterTitle}\n\n${nestChapter(markdown, chapterTitle)}` : nestChapter(markdown, ''));
+    }
+
+    const markdown = chapters.join('\n\n').trim();
+    if (!markdown) throw new Error('The e-book contains no readable text.');
+    return { title, author: authors.length > 0 ? authors.join(', ') : undefined, markdown };
+  }
+};
@@ -0,0 +1,136 @@
+
+import * as pdfjs from 'pdfjs-dist';
+import mammoth from 'mammoth';
+import { Document } from '../types';
+import { geminiService } from './geminiService';
+import { htmlService } from './htmlService';
+import { tableService } from './tableService';
+import { imageService } from './imageService';
+import { epubService } from './epubService';
+
+// Initialize PDF.js worker
+pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.mjs`;
+
+// Uploaded file -> Markdown text plus what the file says about itself. Needs the DOM (canvas, DOMParser),
+// so it runs on the main thread; chunking and embedding happen in the ingestion worker.
+
+export interface ExtractedFile {
+  content: string;
+  type: Document['type'];
+  // E-books bring their own title and author
+  title?: string;
+  author?: string;
+  thumbnail?: string;
+}
+
+export interface ExtractOptions {
+  // Transcribe PDF pages with Gemini vision instead of reading their text layer
+  useVision?: boolean;
+  onProgress?: (status: string) => void;
+}
+
+const CODE_EXTENSIONS = ['.py', '.js', '.ts', '.tsx', '.json', '.css'];
+
+const detectType = (name: string): Document['type'] => {
+  if (name.endsWith('.pdf')) return 'pdf';
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.md')) return 'markdown';
+  if (name.endsWith('.html') || name.endsWith('.htm')) return 'html';
+  if (tableService.isTableFile(name)) return 'table';
+  if (imageService.isImageFile(name)) return 'image';
+  if (epubService.isEpubFile(name)) return 'epub';
+  if (CODE_EXTENSIONS.some(ext => name.endsWith(ext))) return 'code';
+  return 'text';
+};
+
+const extractTextStandardPDF = async (file: File, onProgress: (status: string) => void): Promise<string> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+  let fullText = '';
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    onProgress(`Fast-Scanning PDF Page ${i}/${pdf.numPages}...`);
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const pageText = textContent.items
+      .map((item: any) => item.str)
+      .join(' ');
+    fullText += `## Page ${i}\n\n${pageText}\n\n`;
+  }
+  return fullText;
+};
+
+const extractTextVisionPDF = async (file: File, onProgress: (status: string) => void): Promise<string> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+  let fullMarkdown = '';
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    onProgress(`Vision Parsing Page ${i}/${pdf.numPages}...`);
+    const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 2.0 });
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+
+    // Fix: Removed 'canvas' from parameters as it is not part of the standard RenderParameters type
+    await page.render({ canvasContext: context!, viewport }).promise;
+    const base64Image = canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+
+    const pageMarkdown = await geminiService.processPageWithVision(base64Image);
+    fullMarkdown += pageMarkdown + '\n\n';
+  }
+  return fullMarkdown;
+};
+
+const extractText = async (file: File, useVision: boolean, onProgress: (status: string) => void): Promise<string> => {
+  if (file.type === 'application/pdf') {
+    return useVision ? extractTextVisionPDF(file, onProgress) : extractTextStandardPDF(file, onProgress);
+  }
+
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    onProgress(`Parsing Word Document...`);
+    const arrayBuffer = await file.arrayBuffer();
+    // Fix: Cast mammoth to any to bypass strict type checking for property access in ESM
+    const result = await (mammoth as any).convertToMarkdown({ arrayBuffer });
+    return result.value;
+  }
+
+  if (imageService.isImageFile(file.name)) {
+    return imageService.transcribe(file, onProgress);
+  }
+
+  if (tableService.isTableFile(file.name)) {
+    onProgress(`Reading Table Data...`);
+    return tableService.extract(file);
+  }
+
+  if (/\.html?$/i.test(file.name) || file.type === 'text/html') {
+    onProgress(`Converting HTML...`);
+    return htmlService.toMarkdown(await file.text());
+  }
+
+  onProgress(`Reading Text Data...`);
+  return file.text();
+};
+
+export const extractionService = {
+  extract: async (file: File, options: ExtractOptions = {}): Promise<ExtractedFile> => {
+    const onProgress = options.onProgress || (() => {});
+    const type = detectType(file.name);
+
+    if (type === 'epub') {
+      const book = await epubService.extract(file, onProgress);
+      return { content: book.markdown, type, title: book.title, author: book.author };
+    }
+
+    const content = await extractText(file, !!options.useVision, onProgress);
+    return {
+      content,
+      type,
+      ...(type === 'image' ? { thumbnail: await imageService.createThumbnail(file) } : {})
+    };
+  }
+};
@@ -0,0 +1,245 @@
+
+import JSZip from 'jszip';
+import { IMAGE_EXTENSIONS } from './imageService';
+import { TABLE_EXTENSIONS } from './tableService';
+
+// Turns drops, folder picks and ZIP archives into a flat list of importable files with their relative
+// paths, and reports everything left out instead of failing the whole batch.
+
+export const SUPPORTED_EXTENSIONS = [
+  '.txt', '.md', '.pdf', '.docx', '.html', '.htm', '.epub', ...TABLE_EXTENSIONS, ...IMAGE_EXTENSIONS, '.py', '.js', '.ts', '.tsx', '.json', '.css'
+];
+
+// Extensions read as text; anything else is parsed by a dedicated extractor
+const BINARY_FORMATS = ['.pdf', '.docx', '.epub', '.xlsx', '.xls', '.ods', ...IMAGE_EXTENSIONS];
+
+// Archive members carry no MIME type, and the PDF and Word extractors are picked by it
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_FILES = 1000;
+// Everything inflated from one archive together, so a ZIP bomb stops long before memory runs out
+const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+// A NUL byte in the first few KB means a binary file that merely has a text extension
+const SNIFF_BYTES = 8192;
+
+export interface ImportEntry {
+  file: File;
+  // Relative path including the file name; just the name for plain uploads
+  path: string;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface CollectedFiles {
+  entries: ImportEntry[];
+  skipped: SkippedFile[];
+}
+
+const extensionOf = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+// Dotfiles, macOS resource forks and OS thumbnails ride along in most folders and archives
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX' || part === 'Thumbs.db');
+
+const readDirectory = (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = dir.createReader();
+  const all: FileSystemEntry[] = [];
+  // readEntries returns at most ~100 entries per call; an empty batch means done
+  return new Promise((resolve, reject) => {
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) return resolve(all);
+      all.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+};
+
+// Files and folders that cannot be read (no permission, removed mid-drop) are reported, not fatal
+const walkEntry = async (entry: FileSystemEntry, prefix: string, out: CollectedFiles): Promise<void> => {
+  const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+  try {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      out.entries.push({ file, path });
+    } else if (entry.isDirectory) {
+      for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+        await walkEntry(child, path, out);
+      }
+    }
+  } catch (err: any) {
+    out.skipped.push({ path, reason: `could not be read${err?.message ? ` (${err.message})` : ''}` });
+  }
+};
+
+// JSZip internals the archive import relies on, kept in this one adapter because the typings leave them out:
+// the header's declared size, and the stream that can be stopped part-way through inflating
+interface ZipMemberInternals {
+  _data?: { uncompressedSize?: number };
+  internalStream?: (type: 'uint8array') => ZipStreamInternals;
+}
+
+interface ZipStreamInternals extends JSZip.JSZipStreamHelper<Uint8Array> {
+  // Failing the worker chain stops it and lets go of its buffers; pausing would keep them
+  _worker?: { error: (err: Error) => boolean };
+}
+
+const declaredSizeOf = (member: JSZip.JSZipObject): number =>
+  Number((member as unknown as ZipMemberInternals)._data?.uncompressedSize) || 0;
+
+// Inflates a member, giving up once it outgrows `limit`: the sizes in the ZIP headers can lie.
+// Without the internal stream (a JSZip that changed it) the member is inflated whole and checked afterwards.
+const inflate = (member: JSZip.JSZipObject, limit: number): Promise<Blob | null> => {
+  const internals = member as unknown as ZipMemberInternals;
+  if (typeof internals.internalStream !== 'function') {
+    return member.async('uint8array').then(data => data.length > limit ? null : new Blob([data as BlobPart]));
+  }
+
+  return new Promise((resolve, reject) => {
+    const parts: BlobPart[] = [];
+    let size = 0;
+    const stream = internals.internalStream!('uint8array');
+    stream
+      .on('data', data => {
+        if (size > limit) return;
+        size += data.length;
+        if (size > limit) {
+          parts.length = 0;
+          resolve(null);
+          // Not from inside the data event: the workers upstream are still mid-push
+          setTimeout(() => stream._worker?.error(new Error('Inflate limit reached')));
+          return;
+        }
+        parts.push(data as BlobPart);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(new Blob(parts)))
+      .resume();
+  });
+};
+
+const unzip = async (archive: ImportEntry, skipped: SkippedFile[]): Promise<ImportEntry[]> => {
+  // Read into memory whole before any member is looked at, so the archive itself is capped too
+  if (archive.file.size > MAX_ARCHIVE_BYTES) {
+    skipped.push({ path: archive.path, reason: 'ZIP archive larger than 500 MB' });
+    return [];
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await archive.file.arrayBuffer());
+  } catch {
+    skipped.push({ path: archive.path, reason: 'unreadable ZIP archive' });
+    return [];
+  }
+
+  // Members are filed under the archive's name, so "handbook.zip" -> "handbook/..."
+  const root = archive.path.replace(/\.zip$/i, '');
+  const members = Object.values(zip.files).filter(member => !member.dir && !isHidden(member.name));
+  const entries: ImportEntry[] = [];
+  let inflated = 0;
+  for (const member of members) {
+    const path = `${root}/${member.name}`;
+    if (entries.length >= MAX_ARCHIVE_FILES) {
+      skipped.push({ path, reason: `archive holds more than ${MAX_ARCHIVE_FILES} files` });
+      continue;
+    }
+    const extension = extensionOf(member.name);
+    if (extension === '.zip') {
+      skipped.push({ path, reason: 'nested archive' });
+      continue;
+    }
+    // Checked before inflating, so unwanted members never take up memory
+    if (!fileImportService.isSupported(member.name)) {
+      skipped.push({ path, reason: extension ? `unsupported ${extension} file` : 'no file extension' });
+      continue;
+    }
+    const declaredSize = declaredSizeOf(member);
+    if (declaredSize > MAX_FILE_BYTES) {
+      skipped.push({ path, reason: 'larger than 50 MB' });
+      continue;
+    }
+    if (inflated + declaredSize > MAX_ARCHIVE_BYTES) {
+      skipped.push({ path, reason: 'archive unpacks to more than 500 MB' });
+      continue;
+    }
+
+    const archiveLeft = MAX_ARCHIVE_BYTES - inflated;
+    const blob = await inflate(member, Math.min(MAX_FILE_BYTES, archiveLeft));
+    if (!blob) {
+      skipped.push({ path, reason: archiveLeft < MAX_FILE_BYTES ? 'archive unpacks to more than 500 MB' : 'unpacks to more than 50 MB' });
+      continue;
+    }
+    inflated += blob.size;
+    const name = member.name.split('/').pop() || member.name;
+    entries.push({ file: new File([blob], name, { type: MIME_TYPES[extensionOf(name)] || '' }), path });
+  }
+  return entries;
+};
+
+const looksBinary = async (file: File): Promise<boolean> => {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  return head.includes(0);
+};
+
+export const fileImportService = {
+  isSupported: (name: string): boolean => SUPPORTED_EXTENSIONS.includes(extensionOf(name)),
+
+  // Folder part of a relative path, used as the document's category
+  folderOf: (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '',
+
+  fromFileList: (files: FileList | File[]): ImportEntry[] =>
+    Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name })),
+
+  // Must be called inside the drop handler: DataTransfer items are emptied once the event returns
+  fromDataTransfer: async (dataTransfer: DataTransfer): Promise<CollectedFiles> => {
+    const roots = Array.from(dataTransfer.items)
+      .filter(item => item.kind === 'file')
+      .map(item => item.webkitGetAsEntry?.() ?? null);
+
+    // Browsers without the entries API still give the plain files
+    if (roots.some(entry => !entry)) return { entries: fileImportService.fromFileList(dataTransfer.files), skipped: [] };
+
+    const collected: CollectedFiles = { entries: [], skipped: [] };
+    for (const root of roots) await walkEntry(root!, '', collected);
+    return collected;
+  },
+
+  // Expands ZIP archives and filters out what cannot be imported, with a reason for each
+  collect: async (input: ImportEntry[]): Promise<CollectedFiles> => {
+    const skipped: SkippedFile[] = [];
+    const expanded: ImportEntry[] = [];
+    for (const entry of input) {
+      if (extensionOf(entry.path) === '.zip') expanded.push(...await unzip(entry, skipped));
+      else expanded.push(entry);
+    }
+
+    const entries: ImportEntry[] = [];
+    for (const entry of expanded) {
+      const extension = extensionOf(entry.path);
+      if (isHidden(entry.path)) continue;
+      if (!fileImportService.isSupported(entry.path)) {
+        skipped.push({ path: entry.path, reason: extension ? `unsupported ${extension} file` : 'no file extension' });
+      } else if (entry.file.size === 0) {
+        skipped.push({ path: entry.path, reason: 'empty file' });
+      } else if (entry.file.size > MAX_FILE_BYTES) {
+        skipped.push({ path: entry.path, reason: 'larger than 50 MB' });
+      } else if (!BINARY_FORMATS.includes(extension) && await looksBinary(entry.file)) {
+        skipped.push({ path: entry.path, reason: 'binary content' });
+      } else {
+        entries.push(entry);
+      }
+    }
+    return { entries, skipped };
+  }
+};
@@ -1,89 +1,70 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { UserProfile, Message, DocumentChunk, GroundingSource } from '../types';
+import { GoogleGenAI } from "@google/genai";
+import { GroundingSource, ChatProvider, ChatRequest, ChatStreamChunk, CompletionRequest } from '../types';
+import { promptBuilder } from './promptBuilder';
 
 const CHAT_MODEL = 'gemini-3-flash-preview';
 const VISION_MODEL = 'gemini-3-flash-preview';
 const EMBEDDING_MODEL = 'text-embedding-004';
 
+const transcribeImage = async (base64Image: string, prompt: string): Promise<string> => {
+  if (!process.env.API_KEY) throw new Error("API Key missing");
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const response = await ai.models.generateContent({
+    model: VISION_MODEL,
+    contents: {
+      parts: [
+        { inlineData: { data: base64Image, mimeType: 'image/jpeg' } },
+        { text: prompt }
+      ]
+    }
+  });
+
+  return response.text || "";
+};
+
 export const geminiService = {
-  getEmbedding: async (text: string): Promise<number[]> => {
+  // One request for the whole batch; the API accepts up to 100 texts per call
+  getEmbeddings: async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
     if (!process.env.API_KEY) throw new Error("Gemini API Key is missing. Gemini is required for document indexing.");
 
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
     try {
-      // Use 'contents' (plural) for embedding requests as per latest SDK/compiler requirements
       const response = await ai.models.embedContent({
         model: EMBEDDING_MODEL,
-        contents: [{ parts: [{ text }] }],
+        contents: texts.map(text => ({ parts: [{ text }] })),
+        config: { abortSignal: signal }
       });
 
-      // Access plural 'embeddings' array and return values from the first element
       // Added explicit check for 'values' to satisfy TypeScript's strict null checks
-      if (!response.embeddings || response.embeddings.length === 0 || !response.embeddings[0].values) {
+      const vectors = (response.embeddings || []).map(e => e.values);
+      if (vectors.length !== texts.length || vectors.some(v => !v)) {
         throw new Error("No valid embedding values returned from Gemini.");
       }
 
-      return response.embeddings[0].values;
+      return vectors as number[][];
     } catch (error: any) {
+      if (signal?.aborted) throw error;
       console.error("Gemini Embedding Error:", error);
-      throw new Error(error.message || "Failed to generate embedding");
+      // Keep the HTTP status so callers can tell rate limits from real failures
+      throw Object.assign(new Error(error.message || "Failed to generate embedding"), { status: error.status });
     }
   },
 
   processPageWithVision: async (base64Image: string): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("API Key missing");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
     const prompt = "Convert this document page into high-fidelity Markdown. EXTREMELY IMPORTANT: 1. Convert all mathematical equations to LaTeX format using $ or $$ delimiters. 2. Preserve tables using Markdown table syntax. 3. Maintain structural headers (# ## ###). 4. Do not summarize; transcribe accurately.";
-
-    const response = await ai.models.generateContent({
-      model: VISION_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { data: base64Image, mimeType: 'image/jpeg' } },
-          { text: prompt }
-        ]
-      }
-    });
-
-    return response.text || "";
+    return transcribeImage(base64Image, prompt);
   },
 
-  rerankChunks: async (query: string, chunks: DocumentChunk[]): Promise<DocumentChunk[]> => {
-    if (chunks.length <= 3) return chunks;
-    if (!process.env.API_KEY) return chunks;
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const chunkContext = chunks.map((c, i) => `[ID: ${i}] [Doc: ${c.docTitle}]: ${c.text}`).join('\n\n');
-
-    const prompt = `User Query: "${query}"\n\nBelow are the top relevant snippets from the user's memory. Rank them based on how well they answer the query, prioritizing technical accuracy and mathematical relevance. Return only the top 3 IDs as a JSON array of numbers.\n\nSnippets:\n${chunkContext}`;
-
-    try {
-      const response = await ai.models.generateContent({
-        model: CHAT_MODEL,
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: { type: Type.INTEGER }
-          },
-          thinkingConfig: { thinkingBudget: 2000 }
-        }
-      });
-
-      const topIndices: number[] = JSON.parse(response.text || "[]");
-      return topIndices.map(idx => chunks[idx]).filter(Boolean);
-    } catch (err) {
-      console.warn("Reranking failed, falling back to vector score", err);
-      return chunks.slice(0, 3);
-    }
+  // Screenshots, whiteboard photos and scanned receipts: the text verbatim, plus what a search would need to find the picture
+  processImageWithVision: async (base64Image: string): Promise<string> => {
+    const prompt = "Transcribe all text in this image into Markdown, exactly as written. Preserve tables using Markdown table syntax, lists as lists, and mathematical notation as LaTeX with $ or $$ delimiters. For handwriting, diagrams, charts or photos, add a short section '## Image description' describing what is shown (labels, arrows, axes, totals). Do not summarize the text you transcribe.";
+    return transcribeImage(base64Image, prompt);
   },
 
-  cosineSimilarity: (vecA: number[], vecB: number[]): number => {
+  cosineSimilarity: (vecA: ArrayLike<number>, vecB: ArrayLike<number>): number => {
     let dotProduct = 0;
     let normA = 0;
     let normB = 0;
@@ -94,48 +75,31 @@ export const geminiService = {
     }
     if (normA === 0 || normB === 0) return 0;
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-  },
+  }
+};
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  accent: 'blue',
+  capabilities: { webSearch: true, vision: true, jsonMode: true },
+  models: [
+    { id: CHAT_MODEL, label: 'Gemini 3 Flash', badge: 'Gemini 3 Flash', contextWindow: 1048576 }
+  ],
+  defaultModel: CHAT_MODEL,
+  contextWindow: 32768,
+
+  isConfigured: () => !!process.env.API_KEY,
 
-  askVoraStream: async function* (
-    query: string,
-    history: Message[],
-    profile: UserProfile,
-    relevantChunks: DocumentChunk[],
-    allDocTitles: string[] = [],
-    useSearch: boolean = false
-  ): AsyncGenerator<{ text: string; groundingSources?: GroundingSource[]; sources: string[] }> {
+  stream: async function* (request: ChatRequest): AsyncGenerator<ChatStreamChunk> {
     if (!process.env.API_KEY) throw new Error("Gemini API Key is missing.");
 
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const { query, history, summary, profile, relevantChunks, allDocTitles, model, useSearch, signal } = request;
 
-    const systemInstruction = `
-      You are VORA Assist, a high-fidelity Intelligent Partner.
-      
-      ### USER CONTEXT
-      User: ${profile.name || 'Partner'}
-      Role: ${profile.role || 'Expert'}
-      Mission: ${profile.bio || 'General Intelligence Support'}
-      Stack: ${profile.technicalStack.join(', ') || 'General Technical'}
-
-      ### OPERATIONAL DIRECTIVE
-      1. Use "USER CONTEXT" if necessary for perspective and tone.
-      2. Priority: Private Memory. If Memory Bank snippets are provided, treat them as the absolute truth for this user.
-      3. For technical/math queries, use LaTeX.
-      4. Maintain professional, high-fidelity continuity based on the conversation history.
-      
-      ### MEMORY BANK (PRIVATE DATA)
-      Total Documents: ${allDocTitles.length}
-      Snippets Provided: ${relevantChunks.length}
-      
-      ${relevantChunks.length > 0
-        ? relevantChunks.map(chunk => `[Source: ${chunk.docTitle}]: ${chunk.text}`).join('\n\n')
-        : 'NO LOCAL DATA MATCHED.'
-      }
-
-      ${useSearch ? '### WEB SEARCH PROTOCOL\n- Use Google Search if private data is insufficient.' : ''}
-    `.trim();
+    const systemInstruction = promptBuilder.buildSystemInstruction(profile, relevantChunks, allDocTitles, useSearch, summary);
 
-    const contents = history.slice(-12).map(msg => ({
+    const contents = history.map(msg => ({
       role: msg.role === 'user' ? 'user' : 'model',
       parts: [{ text: msg.content }]
     }));
@@ -145,12 +109,13 @@ export const geminiService = {
       parts: [{ text: query }]
     });
 
-    const sources = Array.from(new Set(relevantChunks.map(c => c.docTitle)));
+    const sources = promptBuilder.getSources(relevantChunks);
 
     try {
       const config: any = {
         systemInstruction,
         temperature: 0.3,
+        abortSignal: signal,
       };
 
       if (useSearch) {
@@ -158,7 +123,7 @@ export const geminiService = {
       }
 
       const result = await ai.models.generateContentStream({
-        model: CHAT_MODEL,
+        model: model || CHAT_MODEL,
         contents,
         config
       });
@@ -167,6 +132,8 @@ export const geminiService = {
       let groundingSources: GroundingSource[] = [];
 
       for await (const chunk of result) {
+        // The SDK only cancels the pending request; stop consuming what was already buffered
+        if (signal?.aborted) break;
         const textChunk = chunk.text || "";
         fullText += textChunk;
 
@@ -188,8 +155,22 @@ export const geminiService = {
         yield { text: fullText, groundingSources: groundingSources.length > 0 ? groundingSources : undefined, sources };
       }
     } catch (error: any) {
+      if (signal?.aborted) return;
       console.error("Gemini Streaming Error:", error);
       throw error;
     }
+  },
+
+  complete: async (request: CompletionRequest): Promise<string> => {
+    if (!process.env.API_KEY) throw new Error("Gemini API Key is missing.");
+
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: request.model || CHAT_MODEL,
+      contents: request.prompt,
+      config: { temperature: 0, abortSignal: request.signal }
+    });
+
+    return response.text || "";
   }
 };
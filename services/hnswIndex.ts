@@ -0,0 +1,240 @@
+
+// Hierarchical Navigable Small World graph (Malkov & Yashunin) for approximate cosine search.
+// Vectors are normalised on insert so similarity is a plain dot product.
+
+export interface HnswOptions {
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+export interface HnswHit {
+  id: string;
+  score: number;
+}
+
+export interface HnswIndex {
+  size: () => number;
+  has: (id: string) => boolean;
+  add: (id: string, vector: ArrayLike<number>) => void;
+  remove: (id: string) => void;
+  search: (vector: ArrayLike<number>, k: number, filter?: (id: string) => boolean) => HnswHit[];
+  // Exact scan over a known subset; cheaper and more accurate than a filtered graph search for small subsets
+  scan: (vector: ArrayLike<number>, ids: Iterable<string>, k: number) => HnswHit[];
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Scored {
+  node: number;
+  score: number;
+}
+
+// Tombstoned nodes still route searches; past this share the graph is rebuilt from live nodes
+const MAX_DELETED_RATIO = 0.5;
+// Filtered searches discard most of the beam, so they explore a wider one
+const FILTERED_EF_FACTOR = 4;
+
+const normalize = (vector: ArrayLike<number>): Float32Array => {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] /= norm;
+  }
+  return out;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// Keeps `list` ordered best-first
+const insertSorted = (list: Scored[], item: Scored) => {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].score > item.score) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, item);
+};
+
+export const createHnswIndex = (options: HnswOptions = {}): HnswIndex => {
+  const m = options.m ?? 16;
+  const maxNeighborsBase = m * 2;
+  const efConstruction = options.efConstruction ?? 100;
+  const efSearch = options.efSearch ?? 64;
+  const levelMultiplier = 1 / Math.log(m);
+
+  let nodes: HnswNode[] = [];
+  let idToNode = new Map<string, number>();
+  let entryPoint = -1;
+  let maxLevel = -1;
+  let deletedCount = 0;
+
+  const randomLevel = () => Math.floor(-Math.log(1 - Math.random()) * levelMultiplier);
+
+  const searchLayer = (query: Float32Array, entries: Scored[], ef: number, level: number): Scored[] => {
+    const visited = new Set(entries.map(e => e.node));
+    const candidates = [...entries].sort((a, b) => b.score - a.score);
+    const results = [...candidates];
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) break;
+
+      for (const neighbor of nodes[current.node].neighbors[level] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const score = dot(query, nodes[neighbor].vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          insertSorted(candidates, { node: neighbor, score });
+          insertSorted(results, { node: neighbor, score });
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  };
+
+  // Neighbour selection heuristic: prefer candidates that are not already covered by a closer pick
+  const selectNeighbors = (candidates: Scored[], limit: number): number[] => {
+    const selected: Scored[] = [];
+    const pruned: Scored[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= limit) break;
+      const vector = nodes[candidate.node].vector;
+      const isCovered = selected.some(s => dot(vector, nodes[s.node].vector) > candidate.score);
+      if (isCovered) pruned.push(candidate);
+      else selected.push(candidate);
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= limit) break;
+      selected.push(candidate);
+    }
+
+    return selected.map(s => s.node);
+  };
+
+  const connect = (from: number, to: number, level: number) => {
+    const links = nodes[from].neighbors[level];
+    links.push(to);
+
+    const limit = level === 0 ? maxNeighborsBase : m;
+    if (links.length <= limit) return;
+
+    // Plain nearest-first pruning: the diversity heuristic here would dominate build time
+    const origin = nodes[from].vector;
+    nodes[from].neighbors[level] = links
+      .map(node => ({ node, score: dot(origin, nodes[node].vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(s => s.node);
+  };
+
+  const insert = (id: string, vector: Float32Array) => {
+    const level = randomLevel();
+    const index = nodes.length;
+    nodes.push({ id, vector, neighbors: Array.from({ length: level + 1 }, () => []), deleted: false });
+    idToNode.set(id, index);
+
+    if (entryPoint === -1) {
+      entryPoint = index;
+      maxLevel = level;
+      return;
+    }
+
+    let entries: Scored[] = [{ node: entryPoint, score: dot(vector, nodes[entryPoint].vector) }];
+
+    for (let l = maxLevel; l > level; l--) {
+      entries = searchLayer(vector, entries, 1, l).slice(0, 1);
+    }
+
+    for (let l = Math.min(level, maxLevel); l >= 0; l--) {
+      const found = searchLayer(vector, entries, efConstruction, l);
+      const neighbors = selectNeighbors(found, l === 0 ? maxNeighborsBase : m);
+      nodes[index].neighbors[l] = neighbors;
+      neighbors.forEach(neighbor => connect(neighbor, index, l));
+      entries = found;
+    }
+
+    if (level > maxLevel) {
+      entryPoint = index;
+      maxLevel = level;
+    }
+  };
+
+  const rebuild = () => {
+    const live = nodes.filter(node => !node.deleted);
+    nodes = [];
+    idToNode = new Map();
+    entryPoint = -1;
+    maxLevel = -1;
+    deletedCount = 0;
+    live.forEach(node => insert(node.id, node.vector));
+  };
+
+  const remove = (id: string) => {
+    const index = idToNode.get(id);
+    if (index === undefined) return;
+    nodes[index].deleted = true;
+    idToNode.delete(id);
+    deletedCount++;
+    if (deletedCount > nodes.length * MAX_DELETED_RATIO) rebuild();
+  };
+
+  return {
+    size: () => nodes.length - deletedCount,
+
+    has: (id) => idToNode.has(id),
+
+    add: (id, vector) => {
+      remove(id);
+      insert(id, normalize(vector));
+    },
+
+    remove,
+
+    search: (vector, k, filter) => {
+      if (entryPoint === -1 || k <= 0) return [];
+      const query = normalize(vector);
+
+      let entries: Scored[] = [{ node: entryPoint, score: dot(query, nodes[entryPoint].vector) }];
+      for (let l = maxLevel; l > 0; l--) {
+        entries = searchLayer(query, entries, 1, l).slice(0, 1);
+      }
+
+      // Widen the beam so tombstoned nodes do not crowd out live results
+      const ef = Math.max(efSearch, k) * (filter ? FILTERED_EF_FACTOR : 1) + Math.min(deletedCount, k);
+      return searchLayer(query, entries, ef, 0)
+        .filter(s => !nodes[s.node].deleted && (!filter || filter(nodes[s.node].id)))
+        .slice(0, k)
+        .map(s => ({ id: nodes[s.node].id, score: s.score }));
+    },
+
+    scan: (vector, ids, k) => {
+      const query = normalize(vector);
+      const hits: HnswHit[] = [];
+      for (const id of ids) {
+        const index = idToNode.get(id);
+        if (index !== undefined) hits.push({ id, score: dot(query, nodes[index].vector) });
+      }
+      return hits.sort((a, b) => b.score - a.score).slice(0, k);
+    }
+  };
+};
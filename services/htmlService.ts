@@ -0,0 +1,272 @@
+
+// HTML -> Markdown for uploaded .html files and web pages, so the structured chunker sees headings,
+// lists, tables and code instead of tag soup. Runs on DOMParser, so it is main-thread only.
+
+// Never content: scripts, styles, embeds and form controls
+const NOISE_SELECTOR = 'script, style, noscript, template, iframe, object, embed, svg, canvas, form, button, input, select, textarea, dialog, [hidden], [aria-hidden="true"]';
+// Page chrome around the content; removed when converting a whole page, kept inside a picked article
+const CHROME_SELECTOR = 'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]';
+// Class/id fragments that mark boilerplate blocks in most CMS themes
+const BOILERPLATE_PATTERN = /(^|[-_\s])(nav|menu|sidebar|footer|breadcrumb|cookie|banner|share|social|comment|related|subscribe|newsletter|advert|promo|skip)([-_\s]|$)/i;
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'details', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'summary', 'table', 'ul'
+]);
+
+// Reading a page's text needs at least this much paragraph text to trust a non-semantic container
+const MIN_CANDIDATE_CHARS = 200;
+
+export interface ReadablePage {
+  title: string;
+  markdown: string;
+  // Absolute http(s) links found in the content, without fragments
+  links: string[];
+}
+
+const resolveUrl = (href: string, baseUrl?: string): string | null => {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const isBlock = (node: Node): node is Element =>
+  node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase());
+
+const codeLanguage = (pre: Element): string => {
+  const classes = `${pre.className} ${pre.querySelector('code')?.className || ''}`;
+  return classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] || '';
+};
+
+const inlineMarkdown = (node: Node, baseUrl?: string): string => {
+  if (node.nodeType === Node.TEXT_NODE) return collapse(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const inner = () => Array.from(el.childNodes).map(child => inlineMarkdown(child, baseUrl)).join('');
+
+  switch (el.tagName.toLowerCase()) {
+    case 'br':
+      return '\n';
+    case 'strong':
+    case 'b': {
+      const text = inner().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'em':
+    case 'i': {
+      const text = inner().trim();
+      return text ? `*${text}*` : '';
+    }
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = collapse(el.textContent || '').trim();
+      return text ? `\`${text}\`` : '';
+    }
+    case 'a': {
+      const text = inner().trim();
+      const href = el.getAttribute('href');
+      const url = href && !href.startsWith('#') && !/^javascript:/i.test(href) ? resolveUrl(href, baseUrl) : null;
+      return url && text ? `[${text}](${url})` : text;
+    }
+    case 'img': {
+      const alt = el.getAttribute('alt')?.trim();
+      return alt ? `[Image: ${alt}]` : '';
+    }
+    case 'math': {
+      // MathML usually carries its TeX source as an annotation
+      const tex = el.querySelector('annotation[encoding="application/x-tex"]')?.textContent?.trim();
+      return tex ? `$${tex}$` : collapse(el.textContent || '');
+    }
+    default:
+      return inner();
+  }
+};
+
+const tableMarkdown = (table: Element, baseUrl?: string): string => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    // Nested tables are flattened into their cell text
+    .filter(row => row.closest('table') === table)
+    .map(row => Array.from(row.children)
+      .filter(cell => /^t[hd]$/i.test(cell.tagName))
+      .map(cell => collapse(inlineMarkdown(cell, baseUrl)).trim().replace(/\|/g, '\\|')));
+
+  const nonEmpty = rows.filter(row => row.length > 0);
+  if (nonEmpty.length === 0) return '';
+
+  const width = Math.max(...nonEmpty.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...new Array(width - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  const [header, ...body] = nonEmpty;
+  return [line(header), line(new Array(width).fill('---')), ...body.map(line)].join('\n');
+};
+
+const listMarkdown = (list: Element, baseUrl?: string): string => {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const start = Number(list.getAttribute('start')) || 1;
+
+  return Array.from(list.children)
+    .filter(child => child.tagName.toLowerCase() === 'li')
+    .map((item, i) => {
+      const marker = ordered ? `${start + i}. ` : '- ';
+      const body = blockMarkdown(item, baseUrl).join('\n');
+      return marker + body.split('\n').join(`\n${' '.repeat(marker.length)}`);
+    })
+    .join('\n');
+};
+
+// Converts an element's children, grouping runs of inline content into paragraphs
+const blockMarkdown = (parent: Element, baseUrl?: string): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = inline.replace(/ *\n */g, '\n').replace(/ {2,}/g, ' ').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  parent.childNodes.forEach(node => {
+    if (!isBlock(node)) {
+      inline += inlineMarkdown(node, baseUrl);
+      return;
+    }
+    flush();
+
+    const el = node;
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) {
+      const text = collapse(inlineMarkdown(el, baseUrl)).trim();
+      if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === 'pre') {
+      const code = (el.textContent || '').replace(/\n+$/, '');
+      if (code.trim()) blocks.push(`\`\`\`${codeLanguage(el)}\n${code}\n\`\`\``);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const list = listMarkdown(el, baseUrl);
+      if (list) blocks.push(list);
+    } else if (tag === 'table') {
+      const table = tableMarkdown(el, baseUrl);
+      if (table) blocks.push(table);
+    } else if (tag === 'blockquote') {
+      const quote = blockMarkdown(el, baseUrl).join('\n\n');
+      if (quote) blocks.push(quote.split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+    } else if (tag === 'hr') {
+      blocks.push('---');
+    } else if (tag === 'dt') {
+      const text = collapse(inlineMarkdown(el, baseUrl)).trim();
+      if (text) blocks.push(`**${text}**`);
+    } else {
+      blocks.push(...blockMarkdown(el, baseUrl));
+    }
+  });
+
+  flush();
+  return blocks;
+};
+
+const stripNoise = (root: Element, removeChrome: boolean) => {
+  root.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+  if (!removeChrome) return;
+  root.querySelectorAll(CHROME_SELECTOR).forEach(el => {
+    // An article's own header carries its title and byline
+    if (/^(header|footer)$/i.test(el.tagName) && el.parentElement?.closest('article, main')) return;
+    el.remove();
+  });
+  root.querySelectorAll('[class], [id]').forEach(el => {
+    const marker = `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`;
+    // Only small blocks: a theme may put "nav" in the class of the whole page wrapper
+    if (BOILERPLATE_PATTERN.test(marker) && (el.textContent || '').length < 2000) el.remove();
+  });
+};
+
+// Prefers semantic containers, else the element whose paragraphs hold the most text (a light Readability)
+const findMainContent = (doc: globalThis.Document): Element => {
+  const semantic = Array.from(doc.querySelectorAll('article, main, [role="main"]'))
+    .sort((a, b) => (b.textContent || '').length - (a.textContent || '').length)[0];
+  if (semantic && (semantic.textContent || '').trim().length >= MIN_CANDIDATE_CHARS) return semantic;
+
+  const scores = new Map<Element, number>();
+  doc.querySelectorAll('p, pre, td, li').forEach(p => {
+    const linkChars = Array.from(p.querySelectorAll('a')).reduce((sum, a) => sum + (a.textContent || '').length, 0);
+    const chars = (p.textContent || '').trim().length - linkChars;
+    if (chars < 25) return;
+    const parent = p.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + chars);
+    if (parent?.parentElement) scores.set(parent.parentElement, (scores.get(parent.parentElement) || 0) + chars / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = MIN_CANDIDATE_CHARS;
+  scores.forEach((score, el) => {
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  });
+  return best || doc.body;
+};
+
+const finish = (blocks: string[]) => blocks.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const pageTitle = (doc: globalThis.Document, root: Element): string =>
+  doc.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim()
+  || doc.title?.trim()
+  || root.querySelector('h1')?.textContent?.trim()
+  || '';
+
+export const htmlService = {
+  parse: (html: string): globalThis.Document => new DOMParser().parseFromString(html, 'text/html'),
+
+  // Whole-document conversion for saved pages and exported docs: everything but the page chrome
+  toMarkdown: (html: string, baseUrl?: string): string => {
+    const doc = htmlService.parse(html);
+    const title = pageTitle(doc, doc.body);
+    stripNoise(doc.body, true);
+
+    const markdown = finish(blockMarkdown(doc.body, baseUrl));
+    return title && !/^#\s/m.test(markdown) ? `# ${title}\n\n${markdown}` : markdown;
+  },
+
+  // Trusted fragments such as e-book chapters: no chrome stripping or title heading, since asides and
+  // "sidebar" boxes are content there and the caller supplies the heading
+  contentToMarkdown: (html: string): string => {
+    const doc = htmlService.parse(html);
+    stripNoise(doc.body, false);
+    return finish(blockMarkdown(doc.body));
+  },
+
+  // The article part of a web page, plus the links it contains for crawling
+  extractReadable: (html: string, baseUrl: string): ReadablePage => {
+    const doc = htmlService.parse(html);
+    stripNoise(doc.body, false);
+    const root = findMainContent(doc);
+    const title = pageTitle(doc, root);
+
+    // Links are collected before chrome is stripped: site navigation is how a crawl finds sibling pages
+    const links = Array.from(new Set(
+      Array.from(doc.querySelectorAll('a[href]'))
+        .map(a => resolveUrl(a.getAttribute('href')!, baseUrl))
+        .filter((url): url is string => !!url && /^https?:/i.test(url))
+        .map(url => url.split('#')[0])
+    ));
+
+    if (root !== doc.body) {
+      root.querySelectorAll('nav, aside, [role="navigation"], [role="complementary"]').forEach(el => el.remove());
+    } else {
+      stripNoise(doc.body, true);
+    }
+
+    let markdown = finish(blockMarkdown(root, baseUrl));
+    // Keep the page title as the top heading so chunks get it in their breadcrumb
+    if (title && !/^#\s/.test(markdown)) markdown = `# ${title}\n\n${markdown}`;
+
+    return { title, markdown, links };
+  }
+};
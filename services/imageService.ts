@@ -0,0 +1,101 @@
+
+import type Tesseract from 'tesseract.js';
+import { geminiService } from './geminiService';
+
+// Images -> searchable text: Gemini vision when a key is configured, otherwise on-device OCR with
+// Tesseract (WASM, language data fetched once and cached by the browser).
+
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp'];
+
+const OCR_LANGUAGES = 'eng';
+// Vision models downscale anyway; larger uploads only cost bandwidth
+const VISION_MAX_SIDE = 2048;
+// Tesseract needs small print at a decent resolution, and only decodes PNG/JPEG/BMP reliably
+const OCR_MAX_SIDE = 3000;
+const THUMBNAIL_MAX_SIDE = 320;
+// Tesseract reads gibberish out of textures and photos; words it is this unsure of are dropped
+const MIN_WORD_CONFIDENCE = 60;
+
+let ocrWorker: Promise<Tesseract.Worker> | null = null;
+// The Tesseract logger is fixed when the worker is created, so progress is routed through here
+let ocrProgress: ((progress: number) => void) | null = null;
+
+const getOcrWorker = (): Promise<Tesseract.Worker> => {
+  if (!ocrWorker) {
+    ocrWorker = import('tesseract.js')
+      .then(({ createWorker }) => createWorker(OCR_LANGUAGES, undefined, {
+        logger: message => {
+          if (message.status === 'recognizing text') ocrProgress?.(message.progress);
+        }
+      }))
+      .catch(err => {
+        // Forget the failed load so the next image can retry the download
+        ocrWorker = null;
+        throw err;
+      });
+  }
+  return ocrWorker;
+};
+
+// Draws the image scaled to fit `maxSide` and returns it as a JPEG data URL
+const renderScaled = async (file: File, maxSide: number, quality: number): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d')!;
+  // Transparent PNGs would turn black in a JPEG
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+const runOcr = async (file: File, onProgress?: (progress: number) => void): Promise<string> => {
+  const worker = await getOcrWorker();
+  ocrProgress = onProgress || null;
+  try {
+    const image = await renderScaled(file, OCR_MAX_SIDE, 0.92);
+    const { data } = await worker.recognize(image, {}, { blocks: true, text: true });
+    // Rebuild lines from confident words; fall back to the raw text when no layout came back
+    const lines = (data.blocks || [])
+      .flatMap(block => block.paragraphs)
+      .map(paragraph => paragraph.lines
+        .map(line => line.words.filter(word => word.confidence >= MIN_WORD_CONFIDENCE).map(word => word.text).join(' '))
+        .filter(Boolean)
+        .join('\n'))
+      .filter(Boolean);
+    return (data.blocks ? lines.join('\n\n') : data.text).trim();
+  } finally {
+    ocrProgress = null;
+  }
+};
+
+export const imageService = {
+  isImageFile: (name: string): boolean => IMAGE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext)),
+
+  // Small JPEG kept on the Document for the Memory Bank card
+  createThumbnail: (file: File): Promise<string> => renderScaled(file, THUMBNAIL_MAX_SIDE, 0.7),
+
+  // Vision failures (quota, network) fall back to OCR rather than losing the file
+  transcribe: async (file: File, onProgress?: (status: string) => void): Promise<string> => {
+    if (process.env.API_KEY) {
+      try {
+        onProgress?.(`Vision Parsing ${file.name}...`);
+        const base64Image = (await renderScaled(file, VISION_MAX_SIDE, 0.85)).split(',')[1];
+        const text = (await geminiService.processImageWithVision(base64Image)).trim();
+        if (text) return text;
+      } catch (err) {
+        console.warn("Vision transcription failed, using local OCR", err);
+      }
+    }
+
+    onProgress?.(`Loading OCR engine...`);
+    const text = await runOcr(file, progress => onProgress?.(`OCR ${file.name} (${Math.round(progress * 100)}%)...`));
+    if (!text) throw new Error("No readable text found in the image");
+    return text;
+  }
+};
@@ -0,0 +1,116 @@
+
+import { ChunkerSettings, Document, DocumentChunk, DocumentIndexState, EmbeddingConfig, EmbeddingResult } from '../types';
+import { chunkingService } from './chunkingService';
+import { embeddingService } from './embeddingService';
+import { storageService } from './storageService';
+
+const EMBED_BATCH_SIZE = 8;
+// Chunks written before versioning came from the original markdown chunker
+const LEGACY_CHUNKER_VERSION = 'markdown-v1';
+
+export interface BuildOptions {
+  // Chunks embedded earlier (an interrupted run, the previous version of the document); reused wherever
+  // the embedded text, model and chunker still match, whatever position the chunk had
+  reuse?: DocumentChunk[];
+  // Receives each newly embedded batch, e.g. to persist progress
+  onBatch?: (chunks: DocumentChunk[]) => Promise<void>;
+  // Wraps every embedding request, e.g. with rate-limit backoff
+  embed?: (texts: string[]) => Promise<EmbeddingResult>;
+  batchSize?: number;
+}
+
+export const indexingService = {
+  getChunkerVersion: (chunk: Pick<DocumentChunk, 'chunkerVersion'>): string => chunk.chunkerVersion || LEGACY_CHUNKER_VERSION,
+
+  // Chunks and embeds a document's stored content with the given embedding config and chunk sizes
+  buildChunks: async (
+    doc: Document,
+    config: EmbeddingConfig,
+    chunkerSettings: ChunkerSettings,
+    onProgress?: (done: number, total: number) => void,
+    options: BuildOptions = {}
+  ): Promise<DocumentChunk[]> => {
+    const pieces = chunkingService.chunkDocument(doc, chunkerSettings);
+    const chunkerVersion = chunkingService.getVersion(chunkerSettings);
+    const modelKey = embeddingService.getModelKey(config);
+    const batchSize = options.batchSize || EMBED_BATCH_SIZE;
+    const embed = options.embed || ((texts: string[]) => embeddingService.embed(texts, config));
+
+    const reusable = new Map((options.reuse || [])
+      .filter(c => c.embeddingModel === modelKey && c.chunkerVersion === chunkerVersion)
+      .map(c => [chunkingService.toEmbeddingText(c.docTitle, { text: c.text, headingPath: c.headingPath || [] }), c]));
+    const chunkObjects: (DocumentChunk | undefined)[] = pieces.map((piece, i) => {
+      const previous = reusable.get(chunkingService.toEmbeddingText(doc.title, piece));
+      // Text inserted above a passage shifts its position, so the reused chunk takes the new id
+      return previous ? { ...previous, id: `${doc.id}-chunk-${i}`, docId: doc.id, docTitle: doc.title } : undefined;
+    });
+    const missing = pieces.map((_, i) => i).filter(i => !chunkObjects[i]);
+    let done = pieces.length - missing.length;
+    onProgress?.(done, pieces.length);
+
+    for (let start = 0; start < missing.length; start += batchSize) {
+      const batch = missing.slice(start, start + batchSize);
+      const { vectors, model, dim } = await embed(batch.map(i => chunkingService.toEmbeddingText(doc.title, pieces[i])));
+
+      const embedded = batch.map((i, j): DocumentChunk => ({
+        id: `${doc.id}-chunk-${i}`,
+        docId: doc.id,
+        docTitle: doc.title,
+        text: pieces[i].text,
+        headingPath: pieces[i].headingPath,
+        embedding: Float32Array.from(vectors[j]),
+        embeddingModel: model,
+        embeddingDim: dim,
+        chunkerVersion
+      }));
+      await options.onBatch?.(embedded);
+      embedded.forEach((chunk, j) => { chunkObjects[batch[j]] = chunk; });
+      done += batch.length;
+      onProgress?.(done, pieces.length);
+    }
+
+    return chunkObjects as DocumentChunk[];
+  },
+
+  describeChunks: (chunks: Pick<DocumentChunk, 'embeddingModel' | 'chunkerVersion'>[]): DocumentIndexState => ({
+    chunkCount: chunks.length,
+    embeddingModels: Array.from(new Set(chunks.map(embeddingService.getChunkModelKey))),
+    chunkerVersions: Array.from(new Set(chunks.map(indexingService.getChunkerVersion)))
+  }),
+
+  // Summarises stored chunks per document without keeping their text or vectors around
+  loadIndexStates: async (): Promise<Record<string, DocumentIndexState>> => {
+    const states: Record<string, DocumentIndexState> = {};
+    await storageService.iterateChunks(chunk => {
+      const state = states[chunk.docId] || { chunkCount: 0, embeddingModels: [], chunkerVersions: [] };
+      const modelKey = embeddingService.getChunkModelKey(chunk);
+      const chunkerVersion = indexingService.getChunkerVersion(chunk);
+      state.chunkCount++;
+      if (!state.embeddingModels.includes(modelKey)) state.embeddingModels.push(modelKey);
+      if (!state.chunkerVersions.includes(chunkerVersion)) state.chunkerVersions.push(chunkerVersion);
+      states[chunk.docId] = state;
+    });
+    return states;
+  },
+
+  // Documents whose chunks were produced by a different embedding model or chunker than the current ones
+  findStaleDocIds: (
+    documents: Document[],
+    indexStates: Record<string, DocumentIndexState>,
+    config: EmbeddingConfig,
+    chunkerSettings: ChunkerSettings
+  ): string[] => {
+    const modelKey = embeddingService.getModelKey(config);
+    const chunkerVersion = chunkingService.getVersion(chunkerSettings);
+
+    return documents
+      .filter(d => {
+        const state = indexStates[d.id];
+        return !!state && (
+          state.embeddingModels.some(m => m !== modelKey) ||
+          state.chunkerVersions.some(v => v !== chunkerVersion)
+        );
+      })
+      .map(d => d.id);
+  }
+};
@@ -0,0 +1,322 @@
+
+import { Document, DocumentChunk, IngestionJob } from '../types';
+import { chunkingService } from './chunkingService';
+import { embeddingService } from './embeddingService';
+import { extractionService } from './extractionService';
+import { fileImportService, ImportEntry, SkippedFile } from './fileImportService';
+import { storageService } from './storageService';
+import { createWorkerClient } from './workerClient';
+
+// Persistent import queue. Jobs live in IndexedDB from the moment a file is dropped: the main thread
+// extracts their text one at a time (it needs the DOM), then the ingestion worker chunks and embeds them.
+// After a reload, resume() picks every unfinished job up again; failed jobs wait for retry().
+// Uploads are hashed before queueing: identical content is skipped, and a changed file with the path of an
+// existing document becomes that document's next version, keeping its id so unchanged chunks are reused.
+
+export interface IngestionListener {
+  // Snapshot of all unfinished jobs, oldest first
+  onJobs?: (jobs: IngestionJob[]) => void;
+  onIndexed?: (doc: Document, chunks: DocumentChunk[]) => void;
+}
+
+export interface EnqueueReport {
+  queued: number;
+  // Of those, new versions of existing documents
+  updated: number;
+  skipped: SkippedFile[];
+}
+
+type WorkerReply =
+  | { jobId: string; type: 'progress'; embedded: number; total: number; note?: string }
+  | { jobId: string; type: 'done'; doc: Document; chunks: DocumentChunk[] }
+  | { jobId: string; type: 'failed'; error: string };
+
+let jobs: IngestionJob[] = [];
+const listeners = new Set<IngestionListener>();
+let isRunning = false;
+let resumed: Promise<void> | null = null;
+
+const pendingJobs = new Map<string, { resolve: (reply: WorkerReply) => void; reject: (err: Error) => void }>();
+
+const createJobId = () => Date.now().toString() + Math.random().toString(36).substr(2, 5);
+
+const hashContent = async (data: ArrayBuffer | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Which document or queued import already holds each content hash
+const knownHashes = (documents: Document[]): Map<string, string> => new Map([
+  ...documents.filter(d => d.contentHash).map(d => [d.contentHash!, d.sourceUrl || d.sourcePath || d.title] as const),
+  ...jobs.filter(j => j.contentHash).map(j => [j.contentHash!, j.path] as const)
+]);
+
+const emitJobs = () => {
+  const snapshot = [...jobs];
+  listeners.forEach(l => l.onJobs?.(snapshot));
+};
+
+// `persist` is off for progress ticks: only status changes are worth a write
+const updateJob = async (id: string, patch: Partial<IngestionJob>, persist = true) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job) return;
+  const updated = { ...job, ...patch };
+  jobs = jobs.map(j => j.id === id ? updated : j);
+  emitJobs();
+  if (persist) await storageService.saveIngestionJob(updated);
+};
+
+const getIngestionWorker = createWorkerClient({
+  create: () => new Worker(new URL('../workers/ingestionWorker.ts', import.meta.url), { type: 'module' }),
+  name: 'The indexing worker',
+  pending: pendingJobs,
+  onMessage: (event: MessageEvent<WorkerReply>) => {
+    const reply = event.data;
+    if (reply.type === 'progress') {
+      updateJob(reply.jobId, {
+        embedded: reply.embedded,
+        totalChunks: reply.total,
+        progress: reply.note || `Embedding ${reply.embedded}/${reply.total}`
+      }, false);
+      return;
+    }
+    pendingJobs.get(reply.jobId)?.resolve(reply);
+    pendingJobs.delete(reply.jobId);
+  }
+});
+
+const embedInWorker = (jobId: string): Promise<WorkerReply> => new Promise(resolve => {
+  // A crashed worker fails the job rather than the queue
+  pendingJobs.set(jobId, { resolve, reject: err => resolve({ jobId, type: 'failed', error: err.message }) });
+  getIngestionWorker().postMessage({
+    jobId,
+    // Read at the start of each job, so settings changed mid-queue apply to the files still waiting
+    config: embeddingService.getConfig(),
+    chunkerSettings: chunkingService.getSettings()
+  });
+});
+
+const extract = async (job: IngestionJob): Promise<Document> => {
+  if (!job.file) throw new Error('The uploaded file is no longer available; remove it and upload it again.');
+  const file = job.file;
+  const extracted = await extractionService.extract(file, {
+    useVision: job.useVision,
+    onProgress: progress => updateJob(job.id, { progress }, false)
+  });
+
+  const title = extracted.title || file.name;
+  const isNested = !!fileImportService.folderOf(job.path);
+  // A new version keeps the labels given to the document; null if it was deleted while this waited
+  const previous = job.isNewVersion ? await storageService.getDocument(job.id) : null;
+  // Same text from different bytes (re-saved, re-zipped) is not a new version
+  const isChanged = !!previous && previous.content !== extracted.content;
+  const version = isChanged ? (previous!.version || 1) + 1 : previous?.version;
+  const updatedAt = isChanged ? job.createdAt : previous?.updatedAt;
+  return {
+    id: job.id,
+    title,
+    content: extracted.content,
+    type: extracted.type,
+    category: previous?.category || job.category,
+    tags: previous?.tags || [],
+    createdAt: previous?.createdAt || job.createdAt,
+    ...(isNested || title !== file.name ? { sourcePath: job.path } : {}),
+    ...(extracted.author ? { author: extracted.author } : {}),
+    ...(extracted.thumbnail ? { thumbnail: extracted.thumbnail } : {}),
+    ...(job.contentHash ? { contentHash: job.contentHash } : {}),
+    ...(version ? { version } : {}),
+    ...(updatedAt ? { updatedAt } : {})
+  };
+};
+
+const processJob = async (job: IngestionJob) => {
+  let doc = job.doc;
+  if (!doc) {
+    await updateJob(job.id, { status: 'extracting', progress: 'Reading file...' });
+    try {
+      doc = await extract(job);
+    } catch (err: any) {
+      console.error(`Extracting ${job.path} failed:`, err);
+      await updateJob(job.id, { status: 'failed', error: err.message || 'Could not read the file', attempts: job.attempts + 1, progress: undefined });
+      return;
+    }
+    // The extracted text replaces the upload, which may be far larger
+    await updateJob(job.id, { doc, file: undefined });
+  }
+
+  await updateJob(job.id, { status: 'embedding', error: undefined, progress: 'Chunking...' });
+  const reply = await embedInWorker(job.id);
+
+  if (reply.type === 'done') {
+    jobs = jobs.filter(j => j.id !== job.id);
+    emitJobs();
+    listeners.forEach(l => l.onIndexed?.(reply.doc, reply.chunks));
+  } else if (reply.type === 'failed') {
+    console.error(`Indexing ${job.path} failed:`, reply.error);
+    await updateJob(job.id, { status: 'failed', error: reply.error, attempts: job.attempts + 1, progress: undefined });
+  }
+};
+
+// Works through queued jobs oldest first; failed ones are left for retry()
+const run = async () => {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    let next: IngestionJob | undefined;
+    while ((next = jobs.find(j => j.status !== 'failed'))) {
+      const jobId = next.id;
+      try {
+        await processJob(next);
+      } catch (err: any) {
+        // Storage errors land here; the job is parked rather than retried in a loop
+        console.error("Import queue error:", err);
+        jobs = jobs.map(j => j.id === jobId ? { ...j, status: 'failed', error: err.message || 'Import failed', progress: undefined } : j);
+        emitJobs();
+      }
+    }
+  } finally {
+    isRunning = false;
+  }
+};
+
+const resume = (): Promise<void> => {
+  if (!resumed) {
+    resumed = storageService.getIngestionJobs().then(stored => {
+      // Work cut short by a reload starts that step over; failed jobs stay failed until retried
+      const restored = stored.map(job => job.status === 'failed' ? job : { ...job, status: 'queued' as const });
+      const known = new Set(jobs.map(j => j.id));
+      jobs = [...restored.filter(j => !known.has(j.id)), ...jobs];
+      emitJobs();
+      run();
+    }).catch(err => {
+      resumed = null;
+      console.error("Failed to load the import queue:", err);
+    });
+  }
+  return resumed;
+};
+
+const enqueue = async (newJobs: IngestionJob[]) => {
+  await resume();
+  for (const job of newJobs) await storageService.saveIngestionJob(job);
+  jobs = [...jobs, ...newJobs];
+  emitJobs();
+  run();
+};
+
+export const ingestionService = {
+  subscribe: (listener: IngestionListener): (() => void) => {
+    listeners.add(listener);
+    listener.onJobs?.([...jobs]);
+    return () => { listeners.delete(listener); };
+  },
+
+  getJobs: (): IngestionJob[] => [...jobs],
+
+  // Loads jobs left over from an earlier session and starts working on them; safe to call repeatedly
+  resume: (): Promise<void> => resume(),
+
+  // Files are matched to documents by folder path, or by name for loose files
+  enqueueFiles: async (entries: ImportEntry[], documents: Document[], options: { useVision?: boolean } = {}): Promise<EnqueueReport> => {
+    await resume();
+    const hashes = knownHashes(documents);
+    const byPath = new Map(documents.filter(d => !d.sourceUrl).map(d => [d.sourcePath || d.title, d]));
+    const queuedPaths = new Set(jobs.map(j => j.path));
+    const newJobs: IngestionJob[] = [];
+    const skipped: SkippedFile[] = [];
+
+    for (const { file, path } of entries) {
+      const contentHash = await hashContent(await file.arrayBuffer());
+      const holder = hashes.get(contentHash);
+      if (holder) {
+        skipped.push({ path, reason: holder === path ? 'already in the Memory Bank' : `same content as ${holder}` });
+        continue;
+      }
+      if (queuedPaths.has(path)) {
+        skipped.push({ path, reason: 'an earlier upload of it is still queued' });
+        continue;
+      }
+      hashes.set(contentHash, path);
+      queuedPaths.add(path);
+
+      const existing = byPath.get(path);
+      newJobs.push({
+        id: existing?.id || createJobId(),
+        path,
+        status: 'queued',
+        createdAt: Date.now(),
+        file,
+        useVision: options.useVision,
+        category: fileImportService.folderOf(path) || 'General',
+        contentHash,
+        ...(existing ? { isNewVersion: true } : {}),
+        embedded: 0,
+        totalChunks: 0,
+        attempts: 0
+      });
+    }
+
+    await enqueue(newJobs);
+    return { queued: newJobs.length, updated: newJobs.filter(j => j.isNewVersion).length, skipped };
+  },
+
+  // Already-extracted documents (web pages) skip straight to embedding; false when the text is already stored
+  enqueueDocument: async (doc: Document, documents: Document[]): Promise<boolean> => {
+    await resume();
+    const contentHash = doc.contentHash || await hashContent(doc.content);
+    if (knownHashes(documents).has(contentHash)) return false;
+    const hashed = { ...doc, contentHash };
+    await enqueue([{
+      id: doc.id,
+      path: doc.sourceUrl || doc.title,
+      status: 'queued',
+      createdAt: doc.createdAt,
+      category: doc.category,
+      contentHash,
+      doc: hashed,
+      embedded: 0,
+      totalChunks: 0,
+      attempts: 0
+    }]);
+    return true;
+  },
+
+  // Edited content is indexed like a new version: only passages whose text changed are re-embedded,
+  // and the content before the edit stays in the version history
+  enqueueEdit: async (doc: Document, content: string): Promise<void> => {
+    await resume();
+    if (jobs.some(j => j.id === doc.id)) throw new Error('This document is still being imported; save again once it is done.');
+    const contentHash = await hashContent(content);
+    const now = Date.now();
+    const edited: Document = { ...doc, content, contentHash, version: (doc.version || 1) + 1, updatedAt: now };
+    await enqueue([{
+      id: doc.id,
+      path: doc.sourceUrl || doc.sourcePath || doc.title,
+      status: 'queued',
+      createdAt: now,
+      category: doc.category,
+      contentHash,
+      isNewVersion: true,
+      doc: edited,
+      embedded: 0,
+      totalChunks: 0,
+      attempts: 0
+    }]);
+  },
+
+  retry: async (jobId?: string): Promise<void> => {
+    const targets = jobs.filter(j => j.status === 'failed' && (!jobId || j.id === jobId));
+    for (const job of targets) await updateJob(job.id, { status: 'queued', error: undefined });
+    run();
+  },
+
+  // Only jobs that are not being worked on can be removed
+  remove: async (jobId: string): Promise<void> => {
+    const job = jobs.find(j => j.id === jobId);
+    if (!job || job.status === 'extracting' || job.status === 'embedding') return;
+    jobs = jobs.filter(j => j.id !== jobId);
+    emitJobs();
+    await storageService.deleteIngestionJob(jobId);
+  }
+};
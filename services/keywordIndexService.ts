@@ -0,0 +1,201 @@
+
+import { DocumentChunk } from '../types';
+
+// BM25 inverted index kept in IndexedDB next to the chunks. The functions below operate on a
+// transaction opened by storageService so index updates commit atomically with chunk writes.
+
+export const TERM_STORE = 'terms';
+export const CHUNK_STATS_STORE = 'chunkStats';
+export const META_STORE = 'meta';
+export const KEYWORD_STORES = [TERM_STORE, CHUNK_STATS_STORE, META_STORE];
+
+const STATS_KEY = 'bm25';
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'such', 'than', 'that', 'the', 'their',
+  'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'you', 'your'
+]);
+
+// Longest suffix first; each rule keeps a stem of at least three characters
+const SUFFIX_RULES: [string, string][] = [
+  ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'], ['ousness', 'ous'],
+  ['ations', 'ate'], ['ation', 'ate'], ['ement', ''], ['ness', ''], ['ment', ''],
+  ['ingly', ''], ['edly', ''], ['ing', ''], ['ies', 'y'], ['ied', 'y'], ['sses', 'ss'], ['ed', ''],
+  ['ly', ''], ['es', ''], ['s', '']
+];
+
+interface TermRecord {
+  term: string;
+  // chunkId -> [term frequency, chunk length in tokens]
+  postings: Record<string, [number, number]>;
+}
+
+interface ChunkStatsRecord {
+  chunkId: string;
+  docId: string;
+  length: number;
+  terms: string[];
+}
+
+interface IndexStats {
+  key: string;
+  totalChunks: number;
+  totalLength: number;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const getStats = async (tx: IDBTransaction): Promise<IndexStats> =>
+  (await request(tx.objectStore(META_STORE).get(STATS_KEY))) || { key: STATS_KEY, totalChunks: 0, totalLength: 0 };
+
+export const keywordIndexService = {
+  stem: (word: string): string => {
+    if (word.length <= 3 || /\d/.test(word)) return word;
+    for (const [suffix, replacement] of SUFFIX_RULES) {
+      if (word.endsWith(suffix) && word.length - suffix.length + replacement.length >= 3) {
+        // "ss" endings (class, glass) are not plurals
+        if (suffix === 's' && word.endsWith('ss')) return word;
+        const stem = word.slice(0, -suffix.length) + replacement;
+        // logging -> logg -> log, but keep fall / pass / buzz
+        return /([^aeiouslz])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+      }
+    }
+    return word;
+  },
+
+  tokenize: (text: string): string[] =>
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(w => w.length > 1 && !STOPWORDS.has(w))
+      .map(keywordIndexService.stem),
+
+  // Always writes the stats record, so an empty bank still counts as indexed
+  addChunks: async (tx: IDBTransaction, chunks: DocumentChunk[]): Promise<void> => {
+    const termStore = tx.objectStore(TERM_STORE);
+    const statsStore = tx.objectStore(CHUNK_STATS_STORE);
+
+    // Group postings per term first so each term record is read and written exactly once
+    const additions = new Map<string, Record<string, [number, number]>>();
+    let addedLength = 0;
+
+    chunks.forEach(chunk => {
+      const tokens = keywordIndexService.tokenize([...(chunk.headingPath || []), chunk.text].join(' '));
+      const frequencies = new Map<string, number>();
+      tokens.forEach(t => frequencies.set(t, (frequencies.get(t) || 0) + 1));
+
+      frequencies.forEach((tf, term) => {
+        if (!additions.has(term)) additions.set(term, {});
+        additions.get(term)![chunk.id] = [tf, tokens.length];
+      });
+
+      statsStore.put({ chunkId: chunk.id, docId: chunk.docId, length: tokens.length, terms: Array.from(frequencies.keys()) } as ChunkStatsRecord);
+      addedLength += tokens.length;
+    });
+
+    await Promise.all(Array.from(additions.entries()).map(async ([term, postings]) => {
+      const existing: TermRecord | undefined = await request(termStore.get(term));
+      termStore.put({ term, postings: { ...existing?.postings, ...postings } } as TermRecord);
+    }));
+
+    const stats = await getStats(tx);
+    tx.objectStore(META_STORE).put({
+      ...stats,
+      totalChunks: stats.totalChunks + chunks.length,
+      totalLength: stats.totalLength + addedLength
+    });
+  },
+
+  removeDocument: async (tx: IDBTransaction, docId: string): Promise<void> => {
+    const termStore = tx.objectStore(TERM_STORE);
+    const statsStore = tx.objectStore(CHUNK_STATS_STORE);
+    const records: ChunkStatsRecord[] = await request(statsStore.index('docId').getAll(docId));
+    if (records.length === 0) return;
+
+    const removals = new Map<string, string[]>();
+    let removedLength = 0;
+    records.forEach(record => {
+      record.terms.forEach(term => {
+        if (!removals.has(term)) removals.set(term, []);
+        removals.get(term)!.push(record.chunkId);
+      });
+      statsStore.delete(record.chunkId);
+      removedLength += record.length;
+    });
+
+    await Promise.all(Array.from(removals.entries()).map(async ([term, chunkIds]) => {
+      const existing: TermRecord | undefined = await request(termStore.get(term));
+      if (!existing) return;
+      chunkIds.forEach(id => delete existing.postings[id]);
+      if (Object.keys(existing.postings).length === 0) termStore.delete(term);
+      else termStore.put(existing);
+    }));
+
+    const stats = await getStats(tx);
+    tx.objectStore(META_STORE).put({
+      ...stats,
+      totalChunks: Math.max(0, stats.totalChunks - records.length),
+      totalLength: Math.max(0, stats.totalLength - removedLength)
+    });
+  },
+
+  isBuilt: async (tx: IDBTransaction): Promise<boolean> =>
+    !!(await request(tx.objectStore(META_STORE).get(STATS_KEY))),
+
+  clear: (tx: IDBTransaction): void => {
+    KEYWORD_STORES.forEach(name => tx.objectStore(name).clear());
+  },
+
+  // Okapi BM25 over the query's stemmed terms; returns chunk ids ordered by score
+  // `docIds` restricts results to those documents; corpus statistics still cover the whole index
+  search: async (
+    tx: IDBTransaction,
+    query: string,
+    limit: number,
+    docIds?: string[]
+  ): Promise<{ chunkId: string; score: number }[]> => {
+    const terms = Array.from(new Set(keywordIndexService.tokenize(query)));
+    if (terms.length === 0) return [];
+
+    let allowed: Set<string> | null = null;
+    if (docIds) {
+      const docIndex = tx.objectStore(CHUNK_STATS_STORE).index('docId');
+      const keys = await Promise.all(docIds.map(docId => request(docIndex.getAllKeys(docId))));
+      allowed = new Set(keys.flat().map(String));
+      if (allowed.size === 0) return [];
+    }
+
+    const stats = await getStats(tx);
+    if (stats.totalChunks === 0) return [];
+    const avgLength = stats.totalLength / stats.totalChunks || 1;
+
+    const termStore = tx.objectStore(TERM_STORE);
+    const records = await Promise.all(terms.map(term => request<TermRecord | undefined>(termStore.get(term))));
+
+    const scores = new Map<string, number>();
+    records.forEach(record => {
+      if (!record) return;
+      const df = Object.keys(record.postings).length;
+      const idf = Math.log(1 + (stats.totalChunks - df + 0.5) / (df + 0.5));
+
+      Object.entries(record.postings).forEach(([chunkId, [tf, length]]) => {
+        if (allowed && !allowed.has(chunkId)) return;
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * length / avgLength));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * norm);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .map(([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+};
@@ -0,0 +1,142 @@
+
+import { Marked, Token, Tokens, TokenizerAndRendererExtension } from 'marked';
+import katex from 'katex';
+import { citationService } from './citationService';
+
+// Markdown -> HTML for chat answers and stored documents: fenced code gets a copy button, $…$ and $$…$$
+// are typeset with KaTeX, and embedded HTML is escaped rather than injected. Separate Marked instances, so
+// only chat turns "[3]" into a citation button.
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderCode = ({ text }: { text: string }) => {
+  const id = `code-${Math.random().toString(36).substr(2, 9)}`;
+  return `
+        <div class="code-block-wrapper">
+          <button class="copy-button" onclick="copyToClipboard(this, '${id}')">Copy</button>
+          <pre><code id="${id}">${escapeHtml(text)}</code></pre>
+        </div>
+      `;
+};
+
+// Raw HTML in the source is shown as text: documents come from crawled pages and uploads, answers from a model
+const renderHtml = ({ text }: { text: string }) => escapeHtml(text);
+
+// Links keep their text but lose script URLs
+const renderLink = function (this: { parser: { parseInline: (tokens: Token[]) => string } }, { href, title, tokens }: Tokens.Link) {
+  const text = this.parser.parseInline(tokens);
+  if (/^\s*(javascript|vbscript|data):/i.test(href)) return text;
+  return `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''} target="_blank" rel="noopener noreferrer">${text}</a>`;
+};
+
+// Snippet numbers the answer being rendered can cite; set for the duration of one synchronous parse
+let citable = new Set<number>();
+
+const citationExtension: TokenizerAndRendererExtension = {
+  name: 'citation',
+  level: 'inline',
+  start(src) { return src.search(/\[\d/); },
+  tokenizer(src) {
+    const match = src.match(/^\[(\d+(?:\s*,\s*\d+)*)\](?!\()/);
+    if (match) {
+      const indices = citationService.extractIndices(match[1]);
+      // "[2024]" or "[5]" beyond the sources given stays text
+      if (!indices.every(n => citable.has(n))) return undefined;
+      return {
+        type: 'citation',
+        raw: match[0],
+        indices
+      };
+    }
+  },
+  renderer(token) {
+    return token.indices
+      .map((n: number) => `<button type="button" class="citation-ref" data-citation="${n}">${n}</button>`)
+      .join('');
+  }
+};
+
+const mathExtensions: TokenizerAndRendererExtension[] = [
+  {
+    name: 'inlineMath',
+    level: 'inline',
+    start(src) { return src.indexOf('$'); },
+    tokenizer(src) {
+      const match = src.match(/^\$([^$]+)\$/);
+      if (match) {
+        return {
+          type: 'inlineMath',
+          raw: match[0],
+          text: match[1].trim()
+        };
+      }
+    },
+    renderer(token) {
+      try {
+        return katex.renderToString(token.text, { displayMode: false, throwOnError: false });
+      } catch (e) {
+        return escapeHtml(token.raw);
+      }
+    }
+  },
+  {
+    name: 'blockMath',
+    level: 'block',
+    start(src) { return src.indexOf('$$'); },
+    tokenizer(src) {
+      const match = src.match(/^\$\$([\s\S]+?)\$\$/);
+      if (match) {
+        return {
+          type: 'blockMath',
+          raw: match[0],
+          text: match[1].trim()
+        };
+      }
+    },
+    renderer(token) {
+      try {
+        const html = katex.renderToString(token.text, { displayMode: true, throwOnError: false });
+        return `<div class="math-block">${html}</div>`;
+      } catch (e) {
+        return `<div class="math-block">${escapeHtml(token.raw)}</div>`;
+      }
+    }
+  }
+];
+
+const chatMarked = new Marked({ renderer: { code: renderCode, html: renderHtml, link: renderLink }, extensions: [citationExtension, ...mathExtensions] });
+const documentMarked = new Marked({ renderer: { code: renderCode, html: renderHtml, link: renderLink }, extensions: mathExtensions });
+
+// Target of the copy buttons' inline onclick
+(window as any).copyToClipboard = (btn: HTMLButtonElement, codeId: string) => {
+  const codeElement = document.getElementById(codeId);
+  if (codeElement) {
+    navigator.clipboard.writeText(codeElement.innerText).then(() => {
+      const originalText = btn.innerText;
+      btn.innerText = 'Copied!';
+      setTimeout(() => {
+        btn.innerText = originalText;
+      }, 2000);
+    });
+  }
+};
+
+const render = (parser: Marked, content: string): string => {
+  try {
+    return parser.parse(content) as string;
+  } catch (e) {
+    return escapeHtml(content);
+  }
+};
+
+export const markdownService = {
+  // Assistant messages, with [n] markers for the given snippet numbers as clickable citation buttons
+  renderChat: (content: string, citedIndices: number[] = []): string => {
+    citable = new Set(citedIndices);
+    return render(chatMarked, content);
+  },
+
+  // Stored document content; bracketed numbers (reference lists, footnotes) stay text
+  renderDocument: (content: string): string => render(documentMarked, content)
+};
@@ -0,0 +1,42 @@
+
+import { Message } from '../types';
+
+// Messages of a session form a tree through `parentId`; the visible conversation is the
+// path from the root to the session's active leaf.
+export const messageTree = {
+  // Sessions saved before branching stored a flat list: chain it into a single branch
+  normalize: (messages: Message[]): Message[] => {
+    if (messages.some(m => m.parentId !== undefined)) return messages;
+    return messages.map((m, i) => ({ ...m, parentId: i === 0 ? null : messages[i - 1].id }));
+  },
+
+  getThread: (messages: Message[], leafId: string | null): Message[] => {
+    if (messages.length === 0) return [];
+    const byId = new Map(messages.map(m => [m.id, m]));
+    let current: Message | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+
+    const thread: Message[] = [];
+    const seen = new Set<string>();
+    while (current && !seen.has(current.id)) {
+      thread.unshift(current);
+      seen.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return thread;
+  },
+
+  getSiblings: (messages: Message[], message: Message): Message[] =>
+    messages
+      .filter(m => (m.parentId ?? null) === (message.parentId ?? null) && m.role === message.role)
+      .sort((a, b) => a.timestamp - b.timestamp),
+
+  // Follows the most recent reply at each level so switching branches lands on the latest answer
+  getLatestLeaf: (messages: Message[], fromId: string): string => {
+    let leafId = fromId;
+    while (true) {
+      const children = messages.filter(m => m.parentId === leafId);
+      if (children.length === 0) return leafId;
+      leafId = children.reduce((latest, m) => (m.timestamp > latest.timestamp ? m : latest)).id;
+    }
+  }
+};
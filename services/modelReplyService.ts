@@ -0,0 +1,15 @@
+
+export const modelReplyService = {
+  // Models wrap JSON in prose or code fences often enough that the object is extracted rather than parsed directly.
+  // Null when the reply holds no parsable object.
+  extractJsonObject: (raw: string): Record<string, unknown> | null => {
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (!match) return null;
+    try {
+      const parsed = JSON.parse(match[0]);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+};
@@ -0,0 +1,173 @@
+
+import { ChatProvider, ChatRequest, ChatStreamChunk, CompletionRequest } from '../types';
+import { promptBuilder } from './promptBuilder';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+// Auxiliary replies are short JSON or a sentence, but reasoning models think first within the same budget
+const DEFAULT_COMPLETION_TOKENS = 1024;
+
+interface ChatCompletionOptions {
+  endpoint: string;
+  apiKey?: string;
+  model: string;
+  providerLabel: string;
+}
+
+export const openaiCompatService = {
+  normalizeBaseUrl: (baseUrl: string): string => baseUrl.trim().replace(/\/+$/, ''),
+
+  buildMessages: (request: ChatRequest) => {
+    const { query, history, summary, profile, relevantChunks, allDocTitles } = request;
+    const systemInstruction = promptBuilder.buildSystemInstruction(profile, relevantChunks, allDocTitles, false, summary);
+
+    return [
+      { role: 'system', content: systemInstruction },
+      ...history.map(m => ({
+        role: m.role === 'user' ? 'user' : 'assistant',
+        content: m.content
+      })),
+      { role: 'user', content: query }
+    ];
+  },
+
+  // Non-streaming `chat/completions` call returning the whole reply
+  completeChat: async (request: CompletionRequest, options: ChatCompletionOptions): Promise<string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) headers['Authorization'] = `Bearer ${options.apiKey}`;
+
+    const response = await fetch(options.endpoint, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: options.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: false,
+        temperature: 0,
+        max_tokens: request.maxTokens ?? DEFAULT_COMPLETION_TOKENS
+      })
+    });
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      throw new Error(errData?.error?.message || `${options.providerLabel} API Error: ${response.statusText}`);
+    }
+
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || "";
+  },
+
+  // Streams an OpenAI-style `chat/completions` SSE response
+  streamChatCompletion: async function* (
+    request: ChatRequest,
+    options: ChatCompletionOptions
+  ): AsyncGenerator<ChatStreamChunk> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) headers['Authorization'] = `Bearer ${options.apiKey}`;
+
+    const sources = promptBuilder.getSources(request.relevantChunks);
+
+    const response = await fetch(options.endpoint, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: options.model,
+        messages: openaiCompatService.buildMessages(request),
+        stream: true,
+        temperature: 0.3,
+        max_tokens: 4096
+      })
+    });
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      throw new Error(errData?.error?.message || `${options.providerLabel} API Error: ${response.statusText}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error("Could not initialize stream reader.");
+
+    const decoder = new TextDecoder();
+    let fullText = "";
+    let buffer = ""; // Buffer to handle partial lines
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+
+        // Keep the last partial line in the buffer
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed || trimmed === 'data: [DONE]') continue;
+
+          if (trimmed.startsWith('data: ')) {
+            try {
+              const json = JSON.parse(trimmed.slice(6));
+              const content = json.choices[0]?.delta?.content || "";
+              if (content) {
+                fullText += content;
+                yield { text: fullText, sources };
+              }
+            } catch (e) {
+              // If JSON is incomplete, we could potentially add it back to buffer,
+              // but standard OpenAI-style streams usually send complete JSON objects per line.
+              console.warn("Skipping partial or invalid JSON chunk");
+            }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+};
+
+// Any server speaking the OpenAI chat/completions dialect: Ollama, llama.cpp server, LM Studio, vLLM...
+export const openaiCompatProvider: ChatProvider = {
+  id: 'openai-compatible',
+  label: 'Local / OpenAI API',
+  accent: 'emerald',
+  capabilities: { webSearch: false, vision: false, jsonMode: false },
+  models: [],
+  defaultModel: DEFAULT_MODEL,
+  // Ollama's default num_ctx is far below what the models support; raise it here if the server allows more
+  contextWindow: 8192,
+  allowCustomModel: true,
+  settingFields: [
+    { key: 'baseUrl', label: 'Base URL', type: 'url', placeholder: DEFAULT_BASE_URL },
+    { key: 'apiKey', label: 'API Key (optional)', type: 'password', placeholder: 'Leave empty for local servers' },
+    { key: 'contextWindow', label: 'Context Window (tokens)', type: 'number', placeholder: '8192' }
+  ],
+
+  isConfigured: (settings) => !!(settings.baseUrl || DEFAULT_BASE_URL).trim(),
+
+  stream: async function* (request: ChatRequest): AsyncGenerator<ChatStreamChunk> {
+    const baseUrl = openaiCompatService.normalizeBaseUrl(request.settings.baseUrl || DEFAULT_BASE_URL);
+
+    yield* openaiCompatService.streamChatCompletion(request, {
+      endpoint: `${baseUrl}/chat/completions`,
+      apiKey: request.settings.apiKey,
+      model: request.model || DEFAULT_MODEL,
+      providerLabel: 'OpenAI-compatible'
+    });
+  },
+
+  complete: (request: CompletionRequest): Promise<string> => {
+    const baseUrl = openaiCompatService.normalizeBaseUrl(request.settings.baseUrl || DEFAULT_BASE_URL);
+
+    return openaiCompatService.completeChat(request, {
+      endpoint: `${baseUrl}/chat/completions`,
+      apiKey: request.settings.apiKey,
+      model: request.model || DEFAULT_MODEL,
+      providerLabel: 'OpenAI-compatible'
+    });
+  }
+};
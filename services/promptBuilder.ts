@@ -0,0 +1,46 @@
+
+import { UserProfile, DocumentChunk } from '../types';
+import { chunkingService } from './chunkingService';
+
+export const promptBuilder = {
+  buildSystemInstruction: (
+    profile: UserProfile,
+    relevantChunks: DocumentChunk[],
+    allDocTitles: string[] = [],
+    useSearch: boolean = false,
+    conversationSummary?: string
+  ): string => {
+    return `
+      You are VORA Assist, a high-fidelity Intelligent Partner.
+
+      ### USER CONTEXT
+      User: ${profile.name || 'Partner'}
+      Role: ${profile.role || 'Expert'}
+      Mission: ${profile.bio || 'General Intelligence Support'}
+      Stack: ${profile.technicalStack.join(', ') || 'General Technical'}
+
+      ### OPERATIONAL DIRECTIVE
+      1. Use "USER CONTEXT" if necessary for perspective and tone.
+      2. Priority: Private Memory. If Memory Bank snippets are provided, treat them as the absolute truth for this user.
+      3. For technical/math queries, ALWAYS use LaTeX format using $ or $$ delimiters.
+      4. Maintain professional, high-fidelity continuity based on the conversation history.
+      5. When you use a Memory Bank snippet, cite it inline by its number in square brackets, e.g. [1] or [1, 3]. Never cite numbers that are not listed.
+
+      ### MEMORY BANK (PRIVATE DATA)
+      Total Documents indexed: ${allDocTitles.length}
+      Snippets Provided: ${relevantChunks.length}
+
+      ${relevantChunks.length > 0
+        ? relevantChunks.map((c, i) => `[${i + 1}] [Source: ${chunkingService.formatBreadcrumb(c.docTitle, c.headingPath)}]: ${c.text}`).join('\n\n')
+        : 'NO SPECIFIC LOCAL DATA MATCHED.'
+      }
+
+      ${conversationSummary ? `### EARLIER IN THIS CONVERSATION\n${conversationSummary}` : ''}
+
+      ${useSearch ? '### WEB SEARCH PROTOCOL\n- Use Google Search if private data is insufficient.' : ''}
+    `.trim();
+  },
+
+  getSources: (relevantChunks: DocumentChunk[]): string[] =>
+    Array.from(new Set(relevantChunks.map(c => c.docTitle)))
+};
@@ -0,0 +1,24 @@
+
+import { AIProvider, ChatProvider, ProviderModel } from '../types';
+import { geminiProvider } from './geminiService';
+import { groqProvider } from './groqService';
+import { openaiCompatProvider } from './openaiCompatService';
+
+// Register new chat backends here; the UI reads everything else from the provider itself.
+const PROVIDERS: ChatProvider[] = [geminiProvider, groqProvider, openaiCompatProvider];
+
+const DEFAULT_PROVIDER: AIProvider = 'groq';
+
+export const providerRegistry = {
+  list: (): ChatProvider[] => PROVIDERS,
+
+  get: (id: AIProvider): ChatProvider =>
+    PROVIDERS.find(p => p.id === id) || PROVIDERS.find(p => p.id === DEFAULT_PROVIDER) || PROVIDERS[0],
+
+  has: (id: string | null): id is AIProvider => !!id && PROVIDERS.some(p => p.id === id),
+
+  getDefaultId: (): AIProvider => DEFAULT_PROVIDER,
+
+  resolveModel: (provider: ChatProvider, modelId?: string): ProviderModel | undefined =>
+    provider.models.find(m => m.id === (modelId || provider.defaultModel)) || provider.models[0]
+};
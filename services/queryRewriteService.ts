@@ -0,0 +1,68 @@
+
+import { ChatModelRef, Message, QueryRewrite } from '../types';
+import { modelReplyService } from './modelReplyService';
+
+// Only the tail of the conversation is needed to resolve pronouns and ellipsis
+const REWRITE_HISTORY_TURNS = 6;
+const MAX_TURN_CHARS = 600;
+const MAX_SUB_QUERIES = 3;
+
+const buildPrompt = (query: string, history: Message[]): string => {
+  const transcript = history
+    .slice(-REWRITE_HISTORY_TURNS)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.slice(0, MAX_TURN_CHARS)}`)
+    .join('\n');
+
+  return `You rewrite follow-up questions into search queries for a private document search engine.
+
+Conversation so far:
+${transcript}
+
+Follow-up question: ${query}
+
+Rewrite the follow-up as one standalone search query that makes sense without the conversation: resolve pronouns and references ("it", "that paper", "the second one") to the names they refer to. Keep the user's wording where possible and do not answer the question.
+If the question asks about several distinct things, also list up to ${MAX_SUB_QUERIES} shorter sub-queries, one per thing; otherwise return an empty list.
+
+Respond with JSON only, in the form {"query": "...", "subQueries": ["..."]}`;
+};
+
+export const queryRewriteService = {
+  // Returns null when there is nothing to resolve against or the rewrite failed; retrieval then uses the raw query
+  rewrite: async (
+    query: string,
+    history: Message[],
+    rewriter: ChatModelRef,
+    signal?: AbortSignal
+  ): Promise<QueryRewrite | null> => {
+    const priorTurns = history.filter(m => m.content.trim());
+    if (priorTurns.length === 0 || !rewriter.provider.isConfigured(rewriter.settings)) return null;
+
+    const startedAt = performance.now();
+    try {
+      const raw = await rewriter.provider.complete({
+        prompt: buildPrompt(query, priorTurns),
+        model: rewriter.model,
+        settings: rewriter.settings,
+        signal
+      });
+
+      const parsed = modelReplyService.extractJsonObject(raw);
+      const standalone = typeof parsed?.query === 'string' ? parsed.query.trim() : '';
+      if (!standalone) return null;
+
+      const subQueries = Array.isArray(parsed?.subQueries)
+        ? parsed!.subQueries
+            .filter((q): q is string => typeof q === 'string' && !!q.trim())
+            .map(q => q.trim())
+            .filter(q => q.toLowerCase() !== standalone.toLowerCase())
+            .slice(0, MAX_SUB_QUERIES)
+        : [];
+
+      return { standalone, subQueries, ms: Math.round(performance.now() - startedAt) };
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn("Query rewrite failed, searching with the original question", err);
+      return null;
+    }
+  }
+};
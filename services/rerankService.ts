@@ -0,0 +1,181 @@
+
+import { DocumentChunk, Reranker, RerankerId, RerankRequest } from '../types';
+import { keywordIndexService } from './keywordIndexService';
+import { modelReplyService } from './modelReplyService';
+import { createWorkerClient } from './workerClient';
+
+const CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+// Snippets sent to an LLM are cut short: enough to judge relevance, less text leaving the device
+const LLM_SNIPPET_CHARS = 700;
+const LLM_MAX_SCORE = 10;
+// A score entry per candidate (up to 50) plus a reasoning model's thinking
+const LLM_MAX_TOKENS = 2048;
+
+let nextRequestId = 0;
+const pendingScores = new Map<number, { resolve: (v: number[]) => void; reject: (e: Error) => void }>();
+
+const getCrossEncoderWorker = createWorkerClient({
+  create: () => new Worker(new URL('../workers/rerankWorker.ts', import.meta.url), { type: 'module' }),
+  name: 'The cross-encoder worker',
+  pending: pendingScores,
+  onMessage: (event: MessageEvent<{ id: number; scores?: number[]; error?: string }>) => {
+    const { id, scores, error } = event.data;
+    const pending = pendingScores.get(id);
+    if (!pending) return;
+    pendingScores.delete(id);
+    if (error || !scores) pending.reject(new Error(error || 'Local reranking failed'));
+    else pending.resolve(scores);
+  }
+});
+
+// Shortest token window containing every matched query term (one occurrence each)
+const shortestCover = (tokens: string[], terms: Set<string>): number => {
+  const counts = new Map<string, number>();
+  let best = Infinity;
+  let left = 0;
+  tokens.forEach((token, right) => {
+    if (!terms.has(token)) return;
+    counts.set(token, (counts.get(token) || 0) + 1);
+    while (counts.size === terms.size) {
+      best = Math.min(best, right - left + 1);
+      const leftToken = tokens[left++];
+      if (!terms.has(leftToken)) continue;
+      const remaining = counts.get(leftToken)! - 1;
+      if (remaining === 0) counts.delete(leftToken);
+      else counts.set(leftToken, remaining);
+    }
+  });
+  return best;
+};
+
+// Lexical and positional signals, blended with the fused rank so purely semantic matches are not buried
+const heuristicScore = (query: string, queryTerms: string[], chunk: DocumentChunk, rank: number, total: number): number => {
+  const prior = 1 - rank / total;
+  if (queryTerms.length === 0) return prior;
+
+  const tokens = keywordIndexService.tokenize(chunk.text);
+  const present = new Set(tokens);
+  const matched = new Set(queryTerms.filter(t => present.has(t)));
+  const coverage = matched.size / queryTerms.length;
+
+  const window = matched.size > 0 ? shortestCover(tokens, matched) : Infinity;
+  const proximity = matched.size > 0 ? matched.size / window : 0;
+
+  const firstMatch = tokens.findIndex(t => matched.has(t));
+  const earliness = firstMatch < 0 ? 0 : 1 - firstMatch / tokens.length;
+
+  const phrase = query.trim().length > 0 && chunk.text.toLowerCase().includes(query.trim().toLowerCase()) ? 1 : 0;
+
+  const headingTerms = new Set(keywordIndexService.tokenize([chunk.docTitle, ...(chunk.headingPath || [])].join(' ')));
+  const inHeading = queryTerms.filter(t => headingTerms.has(t)).length / queryTerms.length;
+
+  return 0.4 * coverage + 0.15 * proximity + 0.05 * earliness + 0.1 * phrase + 0.1 * inHeading + 0.2 * prior;
+};
+
+const buildLlmPrompt = (query: string, chunks: DocumentChunk[]): string => {
+  const snippets = chunks
+    .map((c, i) => `[ID: ${i}] [Doc: ${c.docTitle}]: ${c.text.slice(0, LLM_SNIPPET_CHARS)}`)
+    .join('\n\n');
+
+  return `User Query: "${query}"
+
+Below are snippets retrieved from the user's private documents. Rate how well each snippet helps answer the query, from 0 (irrelevant) to ${LLM_MAX_SCORE} (answers it directly), prioritising technical accuracy and mathematical relevance.
+
+Snippets:
+${snippets}
+
+Respond with JSON only, one entry per snippet, in the form {"scores": [{"id": 0, "score": 7}]}`;
+};
+
+const parseLlmScores = (raw: string, count: number): number[] => {
+  const parsed = modelReplyService.extractJsonObject(raw);
+  if (!Array.isArray(parsed?.scores)) throw new Error('Reranker returned no scores');
+
+  // Snippets the model skipped count as irrelevant
+  const scores = new Array(count).fill(0);
+  parsed.scores.forEach((entry: { id?: unknown; score?: unknown }) => {
+    const id = Number(entry?.id);
+    const score = Number(entry?.score);
+    if (Number.isInteger(id) && id >= 0 && id < count && Number.isFinite(score)) {
+      scores[id] = Math.min(1, Math.max(0, score / LLM_MAX_SCORE));
+    }
+  });
+  return scores;
+};
+
+const heuristicReranker: Reranker = {
+  id: 'heuristic',
+  label: 'Heuristic',
+  description: 'Term coverage, proximity, phrase and heading matches on this device. Instant, no model download.',
+  remote: false,
+  score: async ({ query, chunks }) => {
+    const queryTerms = Array.from(new Set(keywordIndexService.tokenize(query)));
+    return chunks.map((chunk, rank) => heuristicScore(query, queryTerms, chunk, rank, chunks.length));
+  }
+};
+
+const crossEncoderReranker: Reranker = {
+  id: 'cross-encoder',
+  label: 'Cross-Encoder',
+  description: 'Runs an MS MARCO MiniLM cross-encoder in-browser (WASM). Downloads ~20MB once; nothing leaves this device.',
+  remote: false,
+  score: ({ query, chunks, signal }) => {
+    const worker = getCrossEncoderWorker();
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+      pendingScores.set(id, { resolve, reject });
+      worker.postMessage({ id, query, passages: chunks.map(c => c.text), model: CROSS_ENCODER_MODEL });
+      // WASM inference cannot be interrupted, but the caller no longer waits on it
+      signal?.addEventListener('abort', () => {
+        pendingScores.delete(id);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+};
+
+const llmReranker: Reranker = {
+  id: 'llm',
+  label: 'Chat Model',
+  description: 'Asks the active chat model to score each snippet. Most precise, but adds a round trip and sends snippets to that provider.',
+  remote: true,
+  score: async ({ query, chunks, chat, signal }) => {
+    if (!chat || !chat.provider.isConfigured(chat.settings)) throw new Error('The active chat model is not configured');
+    const raw = await chat.provider.complete({
+      prompt: buildLlmPrompt(query, chunks),
+      model: chat.model,
+      settings: chat.settings,
+      signal,
+      maxTokens: LLM_MAX_TOKENS
+    });
+    return parseLlmScores(raw, chunks.length);
+  }
+};
+
+const RERANKERS: Reranker[] = [heuristicReranker, crossEncoderReranker, llmReranker];
+
+export const rerankService = {
+  list: (): Reranker[] => RERANKERS,
+
+  get: (id: RerankerId): Reranker | undefined => RERANKERS.find(r => r.id === id),
+
+  // A failed model-based reranker falls back to the heuristic one; null when that fails too, and retrieval
+  // then keeps the fused order
+  score: async (id: RerankerId, request: RerankRequest): Promise<{ scores: number[]; reranker: Reranker } | null> => {
+    const reranker = rerankService.get(id);
+    if (!reranker) return null;
+    try {
+      const scores = await reranker.score(request);
+      if (scores.length !== request.chunks.length) throw new Error('Reranker returned the wrong number of scores');
+      return { scores, reranker };
+    } catch (err) {
+      if (request.signal?.aborted) throw err;
+      if (reranker.id === 'heuristic') {
+        console.warn(`${reranker.label} reranking failed, keeping fused order`, err);
+        return null;
+      }
+      console.warn(`${reranker.label} reranking failed, using the heuristic reranker`, err);
+      return rerankService.score('heuristic', request);
+    }
+  }
+};
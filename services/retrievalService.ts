@@ -0,0 +1,282 @@
+
+import { ChatModelRef, Document, DocumentChunk, EmbeddingConfig, QueryRewrite, RetrievalCandidate, RetrievalSettings, RetrievalTrace } from '../types';
+import { embeddingService } from './embeddingService';
+import { geminiService } from './geminiService';
+import { rerankService } from './rerankService';
+import { storageService } from './storageService';
+import { vectorIndexService, VectorSearchResult } from './vectorIndexService';
+import { tokenService } from './tokenService';
+
+const DEFAULT_SETTINGS: RetrievalSettings = {
+  topK: 5,
+  candidateCount: 15,
+  scoreThreshold: 0.3,
+  vectorWeight: 0.7,
+  keywordWeight: 0.3,
+  mmrLambda: 0.7,
+  reranker: 'heuristic',
+  maxContextTokens: 4000
+};
+
+// Standard reciprocal rank fusion constant: damps the advantage of the very top ranks
+const RRF_K = 60;
+const RANK_DEPTH = 50;
+// The reranker shortlists a little more than top-k so MMR still has alternatives to pick from
+const RERANK_POOL_FACTOR = 2;
+const PREVIEW_CHARS = 160;
+// An exact-term match lowers the similarity bar, by up to this share for the best keyword hit, but never skips it
+const KEYWORD_THRESHOLD_RELIEF = 0.5;
+
+interface RetrievalOptions {
+  signal?: AbortSignal;
+  settings?: RetrievalSettings;
+  // Restricts the search to these documents; omit to search the whole Memory Bank
+  docIds?: string[];
+  scopeLabels?: string[];
+  // Standalone form of a follow-up question; searched in place of the raw query
+  rewrite?: QueryRewrite | null;
+  // Active chat model, used by the LLM reranker
+  chat?: ChatModelRef;
+  onRerankStart?: () => void;
+}
+
+// Keeps the best score a chunk got from any of the search queries
+const mergeMax = (scores: Map<string, number>, chunkId: string, score: number) => {
+  scores.set(chunkId, Math.max(scores.get(chunkId) ?? -Infinity, score));
+};
+
+// Maximal marginal relevance over an already relevance-ordered list: each pick trades rank-based
+// relevance against similarity to what was already picked, so near-duplicates stop crowding the context
+const selectDiverse = (ordered: DocumentChunk[], k: number, lambda: number): DocumentChunk[] => {
+  const remaining = ordered.map((chunk, rank) => ({ chunk, relevance: 1 - rank / ordered.length }));
+  const selected: DocumentChunk[] = [];
+
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((item, i) => {
+      const redundancy = selected.length === 0 ? 0 : Math.max(
+        ...selected.map(s => geminiService.cosineSimilarity(item.chunk.embedding, s.embedding))
+      );
+      const score = lambda * item.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    selected.push(remaining.splice(bestIndex, 1)[0].chunk);
+  }
+
+  return selected;
+};
+
+// Exact scan over the stored chunks, for when the vector index worker is unavailable
+const scanVectors = async (vectors: number[][], model: string, k: number, docIds?: string[]): Promise<VectorSearchResult[]> => {
+  const allowed = docIds ? new Set(docIds) : null;
+  const hits = vectors.map(() => [] as { id: string; score: number }[]);
+  let searched = 0;
+  let total = 0;
+  await storageService.iterateChunks(chunk => {
+    if (allowed && !allowed.has(chunk.docId)) return;
+    total++;
+    if (embeddingService.getChunkModelKey(chunk) !== model) return;
+    searched++;
+    vectors.forEach((vector, i) => hits[i].push({ id: chunk.id, score: geminiService.cosineSimilarity(vector, chunk.embedding) }));
+  });
+  return hits.map(list => ({ hits: list.sort((a, b) => b.score - a.score).slice(0, k), searched, total }));
+};
+
+export interface RetrievalResult {
+  chunks: DocumentChunk[];
+  trace: RetrievalTrace;
+}
+
+export const retrievalService = {
+  getDefaultSettings: (): RetrievalSettings => ({ ...DEFAULT_SETTINGS }),
+
+  // Saved values are merged over the defaults so settings added later get sensible values
+  getSettings: (): RetrievalSettings => {
+    // Settings saved before rerankers were pluggable only had an on/off switch for the Gemini rerank
+    const { rerank, ...saved } = (storageService.getRetrievalSettings() || {}) as Partial<RetrievalSettings> & { rerank?: boolean };
+    return { ...DEFAULT_SETTINGS, ...(rerank === false ? { reranker: 'none' as const } : {}), ...saved };
+  },
+
+  // Vector + BM25 search fused by reciprocal rank, then a rerank, recording every step for the inspector
+  retrieve: async (
+    query: string,
+    documents: Document[],
+    config: EmbeddingConfig,
+    options: RetrievalOptions = {}
+  ): Promise<RetrievalResult> => {
+    const { signal, rewrite, chat, onRerankStart, docIds, scopeLabels, settings = DEFAULT_SETTINGS } = options;
+    const rankDepth = Math.max(RANK_DEPTH, settings.candidateCount);
+    const startedAt = performance.now();
+
+    const trace: RetrievalTrace = {
+      query,
+      rewrite: rewrite || undefined,
+      scope: docIds ? scopeLabels : undefined,
+      embeddingModel: embeddingService.getModelKey(config),
+      embeddingMs: 0,
+      searchedChunks: 0,
+      skippedChunks: 0,
+      candidates: [],
+      settings,
+      reranked: false,
+      totalMs: 0
+    };
+
+    if (documents.length === 0 || docIds?.length === 0) return { chunks: [], trace };
+
+    try {
+      const searchQueries = rewrite ? [rewrite.standalone, ...rewrite.subQueries] : [query];
+
+      const [{ vectors: queryEmbeddings, model }, keywordRankings] = await Promise.all([
+        embeddingService.embed(searchQueries, config, signal),
+        Promise.all(searchQueries.map(q => storageService.searchKeywordIndex(q, rankDepth, docIds).catch(err => {
+          console.warn("Keyword index unavailable", err);
+          return [];
+        })))
+      ]);
+      trace.embeddingMs = Math.round(performance.now() - startedAt);
+
+      // Vectors from a different embedding model live in another space, so only that model's graph is searched
+      const vectorResults = await Promise.all(
+        queryEmbeddings.map(vector => vectorIndexService.search(vector, model, rankDepth, docIds, signal))
+      ).catch(err => {
+        if (signal?.aborted) throw err;
+        console.warn("Vector index unavailable, scanning chunks instead", err);
+        return scanVectors(queryEmbeddings, model, rankDepth, docIds);
+      });
+      trace.searchedChunks = vectorResults[0].searched;
+      trace.skippedChunks = vectorResults[0].total - vectorResults[0].searched;
+
+      const vectorScores = new Map<string, number>();
+      const keywordScores = new Map<string, number>();
+      vectorResults.forEach(result => result.hits.forEach(hit => mergeMax(vectorScores, hit.id, hit.score)));
+      keywordRankings.forEach(hits => hits.forEach(hit => mergeMax(keywordScores, hit.chunkId, hit.score)));
+
+      const hitIds = new Set([...vectorScores.keys(), ...keywordScores.keys()]);
+      const hitChunks = await storageService.getChunksByIds(Array.from(hitIds));
+      const chunkById = new Map(hitChunks
+        .filter(chunk => embeddingService.getChunkModelKey(chunk) === model)
+        .map(chunk => [chunk.id, chunk]));
+
+      // Keyword-only hits fell outside the vector shortlist; score them exactly
+      chunkById.forEach((chunk, chunkId) => {
+        if (vectorScores.has(chunkId)) return;
+        queryEmbeddings.forEach(vector => {
+          mergeMax(vectorScores, chunkId, geminiService.cosineSimilarity(vector, chunk.embedding));
+        });
+      });
+
+      // Every query contributes one vector and one keyword ranking to the fusion
+      const fusedScores = new Map<string, number>();
+      const addRanking = (chunkIds: string[], weight: number) => {
+        chunkIds.filter(chunkId => chunkById.has(chunkId)).forEach((chunkId, rank) => {
+          fusedScores.set(chunkId, (fusedScores.get(chunkId) || 0) + weight / (RRF_K + rank + 1));
+        });
+      };
+      vectorResults.forEach(result => addRanking(result.hits.map(hit => hit.id), settings.vectorWeight));
+      keywordRankings.forEach(hits => addRanking(hits.map(hit => hit.chunkId), settings.keywordWeight));
+
+      // Near misses that fail the relevance gate stay in the trace to explain empty results
+      const bestKeywordScore = Math.max(0, ...keywordScores.values());
+      const ranked = Array.from(fusedScores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, settings.candidateCount)
+        .map(([chunkId, hybridScore]) => {
+          const vectorScore = vectorScores.get(chunkId) || 0;
+          const keywordScore = keywordScores.get(chunkId) || 0;
+          const keywordShare = bestKeywordScore > 0 ? keywordScore / bestKeywordScore : 0;
+          return {
+            chunk: chunkById.get(chunkId)!,
+            vectorScore,
+            keywordScore,
+            hybridScore,
+            passedThreshold: vectorScore > settings.scoreThreshold * (1 - KEYWORD_THRESHOLD_RELIEF * keywordShare)
+          };
+        });
+
+      trace.candidates = ranked.map((item): RetrievalCandidate => ({
+        chunkId: item.chunk.id,
+        docId: item.chunk.docId,
+        docTitle: item.chunk.docTitle,
+        preview: item.chunk.text.slice(0, PREVIEW_CHARS),
+        vectorScore: item.vectorScore,
+        keywordScore: item.keywordScore,
+        hybridScore: item.hybridScore,
+        passedThreshold: item.passedThreshold
+      }));
+
+      const topCandidates = ranked
+        .filter(item => item.passedThreshold)
+        .map(item => item.chunk);
+
+      let shortlist = topCandidates;
+      const reranker = rerankService.get(settings.reranker);
+      if (reranker && topCandidates.length > settings.topK) {
+        onRerankStart?.();
+        const rerankStartedAt = performance.now();
+        const result = await rerankService.score(reranker.id, {
+          query: rewrite?.standalone || query,
+          chunks: topCandidates,
+          chat,
+          signal
+        });
+        const poolSize = settings.topK * RERANK_POOL_FACTOR;
+        const scores = result?.scores;
+
+        if (scores) {
+          const rerankScores = new Map(topCandidates.map((chunk, i) => [chunk.id, scores[i]]));
+          trace.candidates.forEach(c => { c.rerankScore = rerankScores.get(c.chunkId); });
+          shortlist = topCandidates
+            .map((chunk, i) => ({ chunk, score: scores[i] }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, poolSize)
+            .map(item => item.chunk);
+        } else {
+          shortlist = topCandidates.slice(0, poolSize);
+        }
+        trace.reranker = result && result.reranker.id !== reranker.id
+          ? `${result.reranker.label} (${reranker.label} failed)`
+          : reranker.label;
+        trace.rerankMs = Math.round(performance.now() - rerankStartedAt);
+        trace.reranked = !!scores;
+      }
+
+      const diverse = selectDiverse(shortlist, settings.topK, settings.mmrLambda);
+
+      // Always keep the best chunk, even if it alone exceeds the budget
+      const selected: DocumentChunk[] = [];
+      let usedTokens = 0;
+      for (const chunk of diverse) {
+        const tokens = tokenService.estimate(chunk.text);
+        if (selected.length > 0 && usedTokens + tokens > settings.maxContextTokens) break;
+        selected.push(chunk);
+        usedTokens += tokens;
+      }
+
+      const positions = new Map(selected.map((chunk, i) => [chunk.id, i + 1]));
+      const shortlisted = new Set(shortlist.map(chunk => chunk.id));
+      const diversified = new Set(diverse.map(chunk => chunk.id));
+      trace.candidates.forEach(c => {
+        c.rerankPosition = positions.get(c.chunkId);
+        if (c.rerankPosition !== undefined) return;
+        c.dropReason = !c.passedThreshold ? 'threshold'
+          : !shortlisted.has(c.chunkId) ? 'rerank'
+          : !diversified.has(c.chunkId) ? 'diversity'
+          : 'budget';
+      });
+      trace.totalMs = Math.round(performance.now() - startedAt);
+
+      return { chunks: selected, trace };
+    } catch (e: any) {
+      if (signal?.aborted) throw e;
+      console.warn("Memory retrieval paused", e);
+      trace.error = e?.message || 'Retrieval failed';
+      trace.totalMs = Math.round(performance.now() - startedAt);
+      return { chunks: [], trace };
+    }
+  }
+};
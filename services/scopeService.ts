@@ -0,0 +1,127 @@
+
+import { Document, RetrievalScope } from '../types';
+
+// @report.pdf, @"Quarterly Report.pdf", #finance, #"machine learning"
+const MENTION_PATTERN = /(^|\s)([@#])(?:"([^"]+)"|([^\s"]+))/g;
+const MAX_SUGGESTIONS = 6;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const stripExtension = (title: string) => title.replace(/\.[a-z0-9]+$/i, '');
+
+const matchDocument = (documents: Document[], name: string): Document | undefined => {
+  const wanted = normalize(name);
+  return documents.find(d => normalize(d.title) === wanted)
+    || documents.find(d => normalize(stripExtension(d.title)) === wanted);
+};
+
+const quoteIfNeeded = (value: string) => /\s|"/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+export interface MentionSuggestion {
+  kind: 'document' | 'tag' | 'category';
+  label: string;
+  insert: string;
+}
+
+export const scopeService = {
+  empty: (): RetrievalScope => ({ docIds: [], categories: [], tags: [] }),
+
+  isEmpty: (scope: RetrievalScope): boolean =>
+    scope.docIds.length === 0 && scope.categories.length === 0 && scope.tags.length === 0,
+
+  toggle: (scope: RetrievalScope, key: keyof RetrievalScope, value: string): RetrievalScope => ({
+    ...scope,
+    [key]: scope[key].includes(value) ? scope[key].filter(v => v !== value) : [...scope[key], value]
+  }),
+
+  getCategories: (documents: Document[]): string[] =>
+    Array.from(new Set(documents.map(d => d.category).filter(Boolean))).sort((a, b) => a.localeCompare(b)),
+
+  getTags: (documents: Document[]): string[] =>
+    Array.from(new Set(documents.flatMap(d => d.tags || []))).sort((a, b) => a.localeCompare(b)),
+
+  // A document is in scope if it is picked directly or matches any picked category or tag
+  resolveDocIds: (documents: Document[], scope: RetrievalScope): string[] | undefined => {
+    if (scopeService.isEmpty(scope)) return undefined;
+    const categories = new Set(scope.categories.map(normalize));
+    const tags = new Set(scope.tags.map(normalize));
+
+    return documents
+      .filter(d =>
+        scope.docIds.includes(d.id) ||
+        categories.has(normalize(d.category || '')) ||
+        (d.tags || []).some(t => tags.has(normalize(t)))
+      )
+      .map(d => d.id);
+  },
+
+  // Each non-empty scope narrows the previous ones, e.g. a question's mentions within the picker scope
+  resolveNarrowed: (documents: Document[], scopes: RetrievalScope[]): string[] | undefined => {
+    let docIds: string[] | undefined;
+    scopes.forEach(scope => {
+      const resolved = scopeService.resolveDocIds(documents, scope);
+      if (resolved) docIds = docIds ? docIds.filter(id => resolved.includes(id)) : resolved;
+    });
+    return docIds;
+  },
+
+  describe: (documents: Document[], scope: RetrievalScope): string[] => [
+    ...scope.docIds.map(id => `@${documents.find(d => d.id === id)?.title || 'missing document'}`),
+    ...scope.categories.map(c => `in ${c}`),
+    ...scope.tags.map(t => `#${t}`)
+  ],
+
+  // Resolves @document and #tag (or #category) mentions; unknown mentions are left in the query as plain text
+  parseMentions: (text: string, documents: Document[]): { scope: RetrievalScope; query: string } => {
+    const scope = scopeService.empty();
+    const categories = scopeService.getCategories(documents);
+    const tags = scopeService.getTags(documents);
+
+    const query = text.replace(MENTION_PATTERN, (match, lead: string, sigil: string, quoted?: string, bare?: string) => {
+      const name = (quoted ?? bare ?? '').replace(/[.,;:!?]+$/, '');
+
+      if (sigil === '@') {
+        const doc = matchDocument(documents, name) || matchDocument(documents, quoted ?? bare ?? '');
+        if (!doc) return match;
+        if (!scope.docIds.includes(doc.id)) scope.docIds.push(doc.id);
+        return lead;
+      }
+
+      const tag = tags.find(t => normalize(t) === normalize(name));
+      if (tag) {
+        if (!scope.tags.includes(tag)) scope.tags.push(tag);
+        return lead;
+      }
+      const category = categories.find(c => normalize(c) === normalize(name));
+      if (category) {
+        if (!scope.categories.includes(category)) scope.categories.push(category);
+        return lead;
+      }
+      return match;
+    });
+
+    return { scope, query: query.replace(/\s+/g, ' ').trim() };
+  },
+
+  // Completions for the mention being typed at the end of `text`, if any
+  suggest: (text: string, documents: Document[]): { suggestions: MentionSuggestion[]; replaceFrom: number } => {
+    const active = text.match(/(^|\s)([@#])("?[^\s"]*)$/);
+    if (!active) return { suggestions: [], replaceFrom: -1 };
+
+    const sigil = active[2];
+    const partial = normalize(active[3].replace(/^"/, ''));
+    const replaceFrom = text.length - active[3].length - 1;
+
+    const suggestions: MentionSuggestion[] = sigil === '@'
+      ? documents.map(d => ({ kind: 'document' as const, label: d.title, insert: `@${quoteIfNeeded(d.title)}` }))
+      : [
+          ...scopeService.getTags(documents).map(t => ({ kind: 'tag' as const, label: t, insert: `#${quoteIfNeeded(t)}` })),
+          ...scopeService.getCategories(documents).map(c => ({ kind: 'category' as const, label: c, insert: `#${quoteIfNeeded(c)}` }))
+        ];
+
+    return {
+      suggestions: suggestions.filter(s => normalize(s.label).includes(partial)).slice(0, MAX_SUGGESTIONS),
+      replaceFrom
+    };
+  }
+};
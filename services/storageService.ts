@@ -1,11 +1,32 @@
 
-import { UserProfile, Document, Message, DocumentChunk, ChatSession } from '../types';
+import { AIProvider, ProviderSettings, UserProfile, Document, DocumentChunk, DocumentVersion, ChatSession, EmbeddingConfig, ReindexJob, IngestionJob, RetrievalSettings, ChunkerSettings, WebImportSettings } from '../types';
+import { keywordIndexService, KEYWORD_STORES, TERM_STORE, CHUNK_STATS_STORE, META_STORE } from './keywordIndexService';
 
 const DB_NAME = 'VORA_Brain';
-const DB_VERSION = 5;
+const DB_VERSION = 9;
 const DOC_STORE = 'documents';
 const CHUNK_STORE = 'chunks';
 const CHAT_STORE = 'chats';
+const INGESTION_STORE = 'ingestionJobs';
+// Chunks of documents still being ingested, kept apart so search never sees half a document
+const INGESTION_CHUNK_STORE = 'ingestionChunks';
+// Earlier contents of documents that were re-uploaded with changes
+const VERSION_STORE = 'documentVersions';
+
+// Every stored setting is an object. A value that no longer parses (hand-edited, or cut short by a full quota)
+// or parses to anything else reads as unset rather than breaking startup.
+const readJson = <T>(key: string): T | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    console.warn(`Ignoring ${key}: not an object`);
+  } catch (err) {
+    console.warn(`Ignoring unreadable ${key}:`, err);
+  }
+  return null;
+};
 
 export const storageService = {
   saveProfile: (profile: UserProfile): void => {
@@ -13,13 +34,66 @@ export const storageService = {
   },
 
   getProfile: (): UserProfile => {
-    const saved = localStorage.getItem('vora_profile');
-    return saved ? JSON.parse(saved) : {
+    return readJson<UserProfile>('vora_profile') || {
       name: '', role: '', company: '', bio: '',
       technicalStack: [], interests: [], lastUpdated: Date.now()
     };
   },
 
+  saveProviderModels: (models: Record<AIProvider, string>): void => {
+    localStorage.setItem('vora_provider_models', JSON.stringify(models));
+  },
+
+  getProviderModels: (): Record<AIProvider, string> | null => readJson<Record<AIProvider, string>>('vora_provider_models'),
+
+  saveProviderSettings: (settings: Record<AIProvider, ProviderSettings>): void => {
+    localStorage.setItem('vora_provider_settings', JSON.stringify(settings));
+  },
+
+  getProviderSettings: (): Record<AIProvider, ProviderSettings> | null =>
+    readJson<Record<AIProvider, ProviderSettings>>('vora_provider_settings'),
+
+  saveEmbeddingConfig: (config: EmbeddingConfig): void => {
+    localStorage.setItem('vora_embedding_config', JSON.stringify(config));
+  },
+
+  getEmbeddingConfig: (): EmbeddingConfig | null => {
+    return readJson<EmbeddingConfig>('vora_embedding_config');
+  },
+
+  saveRetrievalSettings: (settings: RetrievalSettings): void => {
+    localStorage.setItem('vora_retrieval_settings', JSON.stringify(settings));
+  },
+
+  getRetrievalSettings: (): Partial<RetrievalSettings> | null => {
+    return readJson<Partial<RetrievalSettings>>('vora_retrieval_settings');
+  },
+
+  saveChunkerSettings: (settings: ChunkerSettings): void => {
+    localStorage.setItem('vora_chunker_settings', JSON.stringify(settings));
+  },
+
+  getChunkerSettings: (): Partial<ChunkerSettings> | null => {
+    return readJson<Partial<ChunkerSettings>>('vora_chunker_settings');
+  },
+
+  saveWebImportSettings: (settings: WebImportSettings): void => {
+    localStorage.setItem('vora_web_import_settings', JSON.stringify(settings));
+  },
+
+  getWebImportSettings: (): Partial<WebImportSettings> | null => {
+    return readJson<Partial<WebImportSettings>>('vora_web_import_settings');
+  },
+
+  saveReindexJob: (job: ReindexJob | null): void => {
+    if (job) localStorage.setItem('vora_reindex_job', JSON.stringify(job));
+    else localStorage.removeItem('vora_reindex_job');
+  },
+
+  getReindexJob: (): ReindexJob | null => {
+    return readJson<ReindexJob>('vora_reindex_job');
+  },
+
   initDB: (): Promise<IDBDatabase> => {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
@@ -27,6 +101,7 @@ export const storageService = {
       request.onsuccess = () => resolve(request.result);
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const upgradeTx = (event.target as IDBOpenDBRequest).transaction!;
 
         if (!db.objectStoreNames.contains(DOC_STORE)) {
           db.createObjectStore(DOC_STORE, { keyPath: 'id' });
@@ -37,9 +112,49 @@ export const storageService = {
           chunkStore.createIndex('docId', 'docId', { unique: false });
         }
 
+        // Embeddings used to be stored as plain number arrays
+        if (event.oldVersion > 0 && event.oldVersion < 7) {
+          upgradeTx.objectStore(CHUNK_STORE).openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const chunk = cursor.value;
+            if (Array.isArray(chunk.embedding)) {
+              cursor.update({ ...chunk, embedding: Float32Array.from(chunk.embedding) });
+            }
+            cursor.continue();
+          };
+        }
+
         if (!db.objectStoreNames.contains(CHAT_STORE)) {
           db.createObjectStore(CHAT_STORE, { keyPath: 'id' });
         }
+
+        if (!db.objectStoreNames.contains(TERM_STORE)) {
+          db.createObjectStore(TERM_STORE, { keyPath: 'term' });
+        }
+
+        if (!db.objectStoreNames.contains(CHUNK_STATS_STORE)) {
+          const statsStore = db.createObjectStore(CHUNK_STATS_STORE, { keyPath: 'chunkId' });
+          statsStore.createIndex('docId', 'docId', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+
+        if (!db.objectStoreNames.contains(INGESTION_STORE)) {
+          db.createObjectStore(INGESTION_STORE, { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains(INGESTION_CHUNK_STORE)) {
+          const pendingStore = db.createObjectStore(INGESTION_CHUNK_STORE, { keyPath: 'id' });
+          pendingStore.createIndex('docId', 'docId', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains(VERSION_STORE)) {
+          const versionStore = db.createObjectStore(VERSION_STORE, { keyPath: 'id' });
+          versionStore.createIndex('docId', 'docId', { unique: false });
+        }
       };
     });
   },
@@ -94,13 +209,49 @@ export const storageService = {
   saveDocument: async (doc: Document, chunks: DocumentChunk[]): Promise<void> => {
     const db = await storageService.initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([DOC_STORE, CHUNK_STORE], 'readwrite');
+      const transaction = db.transaction([DOC_STORE, CHUNK_STORE, ...KEYWORD_STORES], 'readwrite');
       const docStore = transaction.objectStore(DOC_STORE);
       const chunkStore = transaction.objectStore(CHUNK_STORE);
       docStore.put(doc);
       chunks.forEach(chunk => chunkStore.put(chunk));
+      // Re-saving a document must not leave its previous postings behind
+      keywordIndexService.removeDocument(transaction, doc.id)
+        .then(() => keywordIndexService.addChunks(transaction, chunks))
+        .catch(() => transaction.abort());
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
+      // abort() after a keyword index failure fires no error event
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  },
+
+  // Metadata-only update; chunks and indexes are untouched
+  updateDocument: async (doc: Document): Promise<void> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DOC_STORE, 'readwrite');
+      transaction.objectStore(DOC_STORE).put(doc);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  replaceDocumentChunks: async (docId: string, chunks: DocumentChunk[]): Promise<void> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHUNK_STORE, ...KEYWORD_STORES], 'readwrite');
+      const chunkStore = transaction.objectStore(CHUNK_STORE);
+      const request = chunkStore.index('docId').getAllKeys(docId);
+      request.onsuccess = () => {
+        request.result.forEach(key => chunkStore.delete(key));
+        chunks.forEach(chunk => chunkStore.put(chunk));
+      };
+      keywordIndexService.removeDocument(transaction, docId)
+        .then(() => keywordIndexService.addChunks(transaction, chunks))
+        .catch(() => transaction.abort());
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
     });
   },
 
@@ -115,6 +266,37 @@ export const storageService = {
     });
   },
 
+  getDocument: async (id: string): Promise<Document | null> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DOC_STORE, 'readonly');
+      const request = transaction.objectStore(DOC_STORE).get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  getDocumentChunks: async (docId: string): Promise<DocumentChunk[]> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(CHUNK_STORE, 'readonly');
+      const request = transaction.objectStore(CHUNK_STORE).index('docId').getAll(docId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  // Earlier versions of a document, newest first; the current content lives on the document itself
+  getDocumentVersions: async (docId: string): Promise<DocumentVersion[]> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(VERSION_STORE, 'readonly');
+      const request = transaction.objectStore(VERSION_STORE).index('docId').getAll(docId);
+      request.onsuccess = () => resolve((request.result as DocumentVersion[]).sort((a, b) => b.version - a.version));
+      request.onerror = () => reject(request.error);
+    });
+  },
+
   getChunks: async (): Promise<DocumentChunk[]> => {
     const db = await storageService.initDB();
     return new Promise((resolve, reject) => {
@@ -126,13 +308,50 @@ export const storageService = {
     });
   },
 
+  getChunksByIds: async (ids: string[]): Promise<DocumentChunk[]> => {
+    if (ids.length === 0) return [];
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(CHUNK_STORE, 'readonly');
+      const store = transaction.objectStore(CHUNK_STORE);
+      const found: DocumentChunk[] = [];
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) found.push(request.result);
+        };
+      });
+      transaction.oncomplete = () => resolve(found);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Streams every stored chunk through `visit` without materialising the whole store at once
+  iterateChunks: async (visit: (chunk: DocumentChunk) => void): Promise<void> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(CHUNK_STORE, 'readonly');
+      const request = transaction.objectStore(CHUNK_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        visit(cursor.value);
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
   deleteDocument: async (id: string): Promise<void> => {
     const db = await storageService.initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([DOC_STORE, CHUNK_STORE], 'readwrite');
+      const transaction = db.transaction([DOC_STORE, CHUNK_STORE, VERSION_STORE, ...KEYWORD_STORES], 'readwrite');
       const docStore = transaction.objectStore(DOC_STORE);
       const chunkStore = transaction.objectStore(CHUNK_STORE);
+      const versionStore = transaction.objectStore(VERSION_STORE);
       const chunkIndex = chunkStore.index('docId');
+      keywordIndexService.removeDocument(transaction, id).catch(() => transaction.abort());
 
       docStore.delete(id);
       const request = chunkIndex.getAllKeys(id);
@@ -140,9 +359,153 @@ export const storageService = {
         const keys = request.result;
         keys.forEach(key => chunkStore.delete(key));
       };
+      const versionRequest = versionStore.index('docId').getAllKeys(id);
+      versionRequest.onsuccess = () => versionRequest.result.forEach(key => versionStore.delete(key));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  },
+
+  saveIngestionJob: async (job: IngestionJob): Promise<void> => {
+    const db = await storageService.initDB();
+    const { progress: _progress, ...stored } = job;
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(INGESTION_STORE, 'readwrite');
+      transaction.objectStore(INGESTION_STORE).put(stored);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  getIngestionJobs: async (): Promise<IngestionJob[]> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(INGESTION_STORE, 'readonly');
+      const request = transaction.objectStore(INGESTION_STORE).getAll();
+      request.onsuccess = () => resolve((request.result as IngestionJob[]).sort((a, b) => a.createdAt - b.createdAt));
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  getIngestionJob: async (id: string): Promise<IngestionJob | null> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(INGESTION_STORE, 'readonly');
+      const request = transaction.objectStore(INGESTION_STORE).get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  // Drops a job together with any chunks it had embedded
+  deleteIngestionJob: async (id: string): Promise<void> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([INGESTION_STORE, INGESTION_CHUNK_STORE], 'readwrite');
+      const pendingStore = transaction.objectStore(INGESTION_CHUNK_STORE);
+      transaction.objectStore(INGESTION_STORE).delete(id);
+      const request = pendingStore.index('docId').getAllKeys(id);
+      request.onsuccess = () => request.result.forEach(key => pendingStore.delete(key));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  saveIngestionChunks: async (chunks: DocumentChunk[]): Promise<void> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(INGESTION_CHUNK_STORE, 'readwrite');
+      const store = transaction.objectStore(INGESTION_CHUNK_STORE);
+      chunks.forEach(chunk => store.put(chunk));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  getIngestionChunks: async (docId: string): Promise<DocumentChunk[]> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(INGESTION_CHUNK_STORE, 'readonly');
+      const request = transaction.objectStore(INGESTION_CHUNK_STORE).index('docId').getAll(docId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  // Publishes an ingested document and clears its job in one transaction, so a reload never sees both.
+  // A new version replaces the document's chunks; its previous content moves to the version history.
+  completeIngestion: async (doc: Document, chunks: DocumentChunk[]): Promise<void> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DOC_STORE, CHUNK_STORE, VERSION_STORE, INGESTION_STORE, INGESTION_CHUNK_STORE, ...KEYWORD_STORES], 'readwrite');
+      const docStore = transaction.objectStore(DOC_STORE);
+      const chunkStore = transaction.objectStore(CHUNK_STORE);
+      const pendingStore = transaction.objectStore(INGESTION_CHUNK_STORE);
+
+      const previousRequest = docStore.get(doc.id);
+      previousRequest.onsuccess = () => {
+        const previous: Document | undefined = previousRequest.result;
+        if (previous && previous.content !== doc.content) {
+          const version = previous.version || 1;
+          const archived: DocumentVersion = {
+            id: `${doc.id}-v${version}`,
+            docId: doc.id,
+            version,
+            title: previous.title,
+            content: previous.content,
+            contentHash: previous.contentHash,
+            createdAt: previous.updatedAt || previous.createdAt,
+            replacedAt: Date.now()
+          };
+          transaction.objectStore(VERSION_STORE).put(archived);
+        }
+        docStore.put(doc);
+      };
+      const chunkRequest = chunkStore.index('docId').getAllKeys(doc.id);
+      chunkRequest.onsuccess = () => {
+        chunkRequest.result.forEach(key => chunkStore.delete(key));
+        chunks.forEach(chunk => chunkStore.put(chunk));
+      };
+      transaction.objectStore(INGESTION_STORE).delete(doc.id);
+      const request = pendingStore.index('docId').getAllKeys(doc.id);
+      request.onsuccess = () => request.result.forEach(key => pendingStore.delete(key));
+      keywordIndexService.removeDocument(transaction, doc.id)
+        .then(() => keywordIndexService.addChunks(transaction, chunks))
+        .catch(() => transaction.abort());
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      // abort() after a keyword index failure fires no error event
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  },
 
+  // Backfills the keyword index for Memory Banks created before it existed
+  ensureKeywordIndex: async (): Promise<void> => {
+    const db = await storageService.initDB();
+    const isBuilt = await new Promise<boolean>((resolve, reject) => {
+      const transaction = db.transaction(KEYWORD_STORES, 'readonly');
+      keywordIndexService.isBuilt(transaction).then(resolve, reject);
+    });
+    if (isBuilt) return;
+
+    const chunks = await storageService.getChunks();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(KEYWORD_STORES, 'readwrite');
+      keywordIndexService.clear(transaction);
+      keywordIndexService.addChunks(transaction, chunks).catch(() => transaction.abort());
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  },
+
+  searchKeywordIndex: async (query: string, limit: number, docIds?: string[]): Promise<{ chunkId: string; score: number }[]> => {
+    const db = await storageService.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(KEYWORD_STORES, 'readonly');
+      keywordIndexService.search(transaction, query, limit, docIds).then(resolve, reject);
     });
   }
 };
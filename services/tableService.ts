@@ -0,0 +1,120 @@
+
+import { read, utils } from 'xlsx';
+
+// CSV/TSV and spreadsheet workbooks -> Markdown pipe tables, one "# Sheet" section per worksheet.
+// The table chunker relies on this shape: a header row, a separator row, then one line per record.
+
+export const TABLE_EXTENSIONS = ['.csv', '.tsv', '.xlsx', '.xls', '.ods'];
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+export interface Sheet {
+  name: string;
+  rows: string[][];
+}
+
+// RFC 4180: quoted fields may hold delimiters, newlines and doubled quotes
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// European exports use ";" because "," is their decimal separator; pick whichever splits the header most
+const sniffDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = CANDIDATE_DELIMITERS.map(d => parseDelimited(firstLine, d)[0]?.length || 0);
+  return CANDIDATE_DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+const escapeCell = (value: string) => value.replace(/\s*\r?\n\s*/g, ' ').trim().replace(/\|/g, '\\|');
+
+// Drops empty rows and empty trailing columns, and names blank header cells
+const normalize = (rows: string[][]): string[][] => {
+  const cleaned = rows
+    .map(row => row.map(cell => escapeCell(String(cell ?? ''))))
+    .filter(row => row.some(cell => cell !== ''));
+  if (cleaned.length === 0) return [];
+
+  let width = 0;
+  cleaned.forEach(row => row.forEach((cell, i) => { if (cell) width = Math.max(width, i + 1); }));
+  const padded = cleaned.map(row => Array.from({ length: width }, (_, i) => row[i] || ''));
+  padded[0] = padded[0].map((cell, i) => cell || `Column ${i + 1}`);
+  return padded;
+};
+
+const tableMarkdown = (rows: string[][]): string => {
+  const [header, ...body] = rows;
+  const line = (row: string[]) => `| ${row.join(' | ')} |`;
+  return [line(header), line(header.map(() => '---')), ...body.map(line)].join('\n');
+};
+
+export const tableService = {
+  isTableFile: (name: string): boolean => TABLE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext)),
+
+  parseDelimited: (text: string, delimiter?: string): Sheet => {
+    const source = text.replace(/^\uFEFF/, '');
+    return { name: '', rows: normalize(parseDelimited(source, delimiter || sniffDelimiter(source))) };
+  },
+
+  parseWorkbook: (data: ArrayBuffer): Sheet[] => {
+    const workbook = read(data, { type: 'array' });
+    return workbook.SheetNames.map(name => ({
+      name,
+      // Formatted text as shown in the spreadsheet, so dates and currencies read the way they were entered
+      rows: normalize(utils.sheet_to_json<string[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: false }))
+    }));
+  },
+
+  // Named sheets become "# Sheet" sections; a lone CSV table has no heading
+  toMarkdown: (sheets: Sheet[]): string =>
+    sheets
+      .filter(sheet => sheet.rows.length > 0)
+      .map(sheet => sheet.name ? `# ${sheet.name}\n\n${tableMarkdown(sheet.rows)}` : tableMarkdown(sheet.rows))
+      .join('\n\n'),
+
+  extract: async (file: File): Promise<string> => {
+    const name = file.name.toLowerCase();
+    const sheets = name.endsWith('.csv') || name.endsWith('.tsv')
+      ? [tableService.parseDelimited(await file.text(), name.endsWith('.tsv') ? '\t' : undefined)]
+      : tableService.parseWorkbook(await file.arrayBuffer());
+
+    const markdown = tableService.toMarkdown(sheets);
+    if (!markdown) throw new Error('The file contains no table data.');
+    return markdown;
+  }
+};
@@ -0,0 +1,9 @@
+
+// Rough English average; close enough for budgeting without shipping a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+export const tokenService = {
+  estimate: (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN),
+
+  toChars: (tokens: number): number => tokens * CHARS_PER_TOKEN
+};
@@ -0,0 +1,74 @@
+
+import { DocumentChunk } from '../types';
+import { embeddingService } from './embeddingService';
+import { createWorkerClient } from './workerClient';
+
+export interface VectorSearchResult {
+  hits: { id: string; score: number }[];
+  // Chunks embedded with the queried model vs. all indexed chunks
+  searched: number;
+  total: number;
+}
+
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void }>();
+
+const getIndexWorker = createWorkerClient({
+  create: () => new Worker(new URL('../workers/vectorIndexWorker.ts', import.meta.url), { type: 'module' }),
+  name: 'The vector index worker',
+  pending,
+  onMessage: (event: MessageEvent<{ id: number; result?: unknown; error?: string }>) => {
+    const { id, result, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (error) request.reject(new Error(error));
+    else request.resolve(result);
+  },
+  // Chunks saved before model tagging carry no key of their own
+  onStart: worker => worker.postMessage({ type: 'init', legacyModelKey: embeddingService.getChunkModelKey({}) })
+});
+
+const call = <T>(message: Record<string, unknown>, signal?: AbortSignal): Promise<T> => {
+  const worker = getIndexWorker();
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    worker.postMessage({ ...message, id });
+    signal?.addEventListener('abort', () => {
+      pending.delete(id);
+      reject(signal.reason);
+    }, { once: true });
+  });
+};
+
+export const vectorIndexService = {
+  // Starts building the graphs from IndexedDB ahead of the first query
+  warmUp: (): void => {
+    getIndexWorker();
+  },
+
+  // `docIds` restricts the search to those documents; omit it to search everything
+  search: (
+    vector: ArrayLike<number>,
+    modelKey: string,
+    k: number,
+    docIds?: string[],
+    signal?: AbortSignal
+  ): Promise<VectorSearchResult> =>
+    call<VectorSearchResult>({ type: 'search', vector: Float32Array.from(vector), modelKey, k, docIds }, signal),
+
+  upsertDocument: (docId: string, chunks: DocumentChunk[]): Promise<void> =>
+    call<void>({
+      type: 'upsert',
+      docId,
+      entries: chunks.map(chunk => ({
+        chunkId: chunk.id,
+        modelKey: embeddingService.getChunkModelKey(chunk),
+        vector: chunk.embedding
+      }))
+    }),
+
+  removeDocument: (docId: string): Promise<void> =>
+    call<void>({ type: 'remove', docId })
+};
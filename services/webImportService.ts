@@ -0,0 +1,174 @@
+
+import { WebImportSettings } from '../types';
+import { htmlService } from './htmlService';
+import { storageService } from './storageService';
+
+const DEFAULT_SETTINGS: WebImportSettings = {
+  proxyUrl: '',
+  crawl: 'page',
+  maxDepth: 1,
+  maxPages: 10
+};
+
+// Hard caps so a typo in the settings cannot crawl a whole site
+const MAX_DEPTH = 3;
+const MAX_PAGES = 100;
+// A sitemap index lists sitemaps; deeper nesting is not in the protocol
+const MAX_SITEMAP_DEPTH = 1;
+// Pages with less text than this are link hubs or error pages, not content
+const MIN_PAGE_CHARS = 200;
+const NON_PAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|ico|css|js|mjs|json|zip|gz|tar|mp[34]|mov|avi|woff2?|ttf|exe|dmg|pdf)$/i;
+
+export interface ImportedPage {
+  url: string;
+  title: string;
+  markdown: string;
+}
+
+export interface CrawlProgress {
+  fetched: number;
+  queued: number;
+  url: string;
+}
+
+// "{url}" in the proxy is replaced by the encoded target; otherwise the target is appended
+const withProxy = (url: string, proxyUrl: string): string => {
+  const proxy = proxyUrl.trim();
+  if (!proxy) return url;
+  return proxy.includes('{url}') ? proxy.replace('{url}', encodeURIComponent(url)) : `${proxy}${encodeURIComponent(url)}`;
+};
+
+const fetchText = async (url: string, settings: WebImportSettings, signal?: AbortSignal): Promise<{ text: string; contentType: string }> => {
+  let response: Response;
+  try {
+    response = await fetch(withProxy(url, settings.proxyUrl), { signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    // Browsers report blocked cross-origin requests as a bare network error
+    throw new Error(settings.proxyUrl
+      ? `Could not reach ${url} through the proxy.`
+      : `Could not fetch ${url}. The site may block cross-origin requests; set a CORS proxy and try again.`);
+  }
+  if (!response.ok) throw new Error(`Fetching ${url} failed: ${response.status} ${response.statusText}`);
+  return { text: await response.text(), contentType: response.headers.get('content-type') || '' };
+};
+
+const normalizeUrl = (url: string): string => {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+};
+
+const isCrawlable = (url: string, origin: string, pathPrefix: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === origin && parsed.pathname.startsWith(pathPrefix) && !NON_PAGE_EXTENSIONS.test(parsed.pathname);
+  } catch {
+    return false;
+  }
+};
+
+// <loc> entries of a sitemap, following a sitemap index one level down; `seen` stops indexes listing each other
+const readSitemap = async (
+  url: string,
+  settings: WebImportSettings,
+  limit: number,
+  signal?: AbortSignal,
+  depth = 0,
+  seen = new Set<string>()
+): Promise<string[]> => {
+  seen.add(url);
+  const { text } = await fetchText(url, settings, signal);
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.querySelector('parsererror')) throw new Error(`${url} is not a valid sitemap.`);
+
+  const locs = (parent: globalThis.Document | Element, tag: string) =>
+    Array.from(parent.getElementsByTagName(tag))
+      .map(el => el.getElementsByTagName('loc')[0]?.textContent?.trim())
+      .filter((loc): loc is string => !!loc);
+
+  const pages = locs(xml, 'url');
+  if (depth < MAX_SITEMAP_DEPTH) {
+    for (const nested of locs(xml, 'sitemap')) {
+      if (pages.length >= limit) break;
+      if (seen.has(nested)) continue;
+      pages.push(...await readSitemap(nested, settings, limit - pages.length, signal, depth + 1, seen));
+    }
+  }
+  return pages.slice(0, limit);
+};
+
+export const webImportService = {
+  getDefaultSettings: (): WebImportSettings => ({ ...DEFAULT_SETTINGS }),
+
+  getSettings: (): WebImportSettings => ({ ...DEFAULT_SETTINGS, ...storageService.getWebImportSettings() }),
+
+  fetchPage: async (url: string, settings: WebImportSettings, signal?: AbortSignal): Promise<ImportedPage & { links: string[] }> => {
+    const { text, contentType } = await fetchText(url, settings, signal);
+    if (contentType && !/html|xml/i.test(contentType)) {
+      throw new Error(`${url} is not a web page (${contentType.split(';')[0]}).`);
+    }
+    const page = htmlService.extractReadable(text, url);
+    return { url, title: page.title || new URL(url).pathname, markdown: page.markdown, links: page.links };
+  },
+
+  // Single page, a sitemap's pages, or a breadth-first walk of same-site links below the start URL.
+  // Pages that fail or carry no real text are skipped; the start page failing is an error.
+  crawl: async (
+    startUrl: string,
+    settings: WebImportSettings,
+    onPage: (page: ImportedPage) => Promise<void>,
+    onProgress?: (progress: CrawlProgress) => void,
+    signal?: AbortSignal
+  ): Promise<{ imported: number; skipped: string[] }> => {
+    const start = normalizeUrl(startUrl);
+    const maxPages = Math.min(MAX_PAGES, Math.max(1, settings.maxPages));
+    const maxDepth = settings.crawl === 'links' ? Math.min(MAX_DEPTH, Math.max(0, settings.maxDepth)) : 0;
+    const skipped: string[] = [];
+    let imported = 0;
+
+    const queue: { url: string; depth: number }[] = settings.crawl === 'sitemap'
+      ? (await readSitemap(start, settings, maxPages, signal)).map(url => ({ url, depth: 0 }))
+      : [{ url: start, depth: 0 }];
+    const seen = new Set(queue.map(item => item.url));
+
+    // Links are followed only within the start page's directory, so /docs/ does not wander into /blog/
+    const { origin, pathname } = new URL(start);
+    const pathPrefix = pathname.slice(0, pathname.lastIndexOf('/') + 1);
+
+    let fetched = 0;
+    while (queue.length > 0 && fetched < maxPages) {
+      const { url, depth } = queue.shift()!;
+      onProgress?.({ fetched, queued: queue.length, url });
+      fetched++;
+
+      let page: ImportedPage & { links: string[] };
+      try {
+        page = await webImportService.fetchPage(url, settings, signal);
+      } catch (err) {
+        if (signal?.aborted || (url === start && settings.crawl !== 'sitemap')) throw err;
+        console.warn(`Skipping ${url}`, err);
+        skipped.push(url);
+        continue;
+      }
+
+      if (depth < maxDepth) {
+        page.links
+          .filter(link => !seen.has(link) && isCrawlable(link, origin, pathPrefix))
+          .forEach(link => {
+            seen.add(link);
+            queue.push({ url: link, depth: depth + 1 });
+          });
+      }
+
+      if (settings.crawl !== 'page' && page.markdown.length < MIN_PAGE_CHARS) {
+        skipped.push(url);
+        continue;
+      }
+      await onPage({ url: page.url, title: page.title, markdown: page.markdown });
+      imported++;
+    }
+
+    return { imported, skipped };
+  }
+};
@@ -0,0 +1,43 @@
+
+// Lazily started module worker answering requests through a pending map, the {id, ...} protocol the model and
+// index workers share. A worker that failed to load or crashed never answers: every waiting request is failed
+// and the next call starts a fresh worker.
+
+export interface PendingRequest {
+  reject: (err: Error) => void;
+}
+
+interface WorkerClientOptions<K, M> {
+  create: () => Worker;
+  // Subject of the error messages, e.g. "The vector index worker"
+  name: string;
+  pending: Map<K, PendingRequest>;
+  onMessage: (event: MessageEvent<M>) => void;
+  // Runs once per started worker, before any request is posted
+  onStart?: (worker: Worker) => void;
+}
+
+export const createWorkerClient = <K, M>({ create, name, pending, onMessage, onStart }: WorkerClientOptions<K, M>): (() => Worker) => {
+  let worker: Worker | null = null;
+
+  const fail = (message: string) => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach(request => request.reject(new Error(message)));
+    pending.clear();
+  };
+
+  return () => {
+    if (!worker) {
+      worker = create();
+      worker.onmessage = onMessage;
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        fail(event.message || `${name} stopped unexpectedly`);
+      };
+      worker.onmessageerror = () => fail(`${name} sent an unreadable reply`);
+      onStart?.(worker);
+    }
+    return worker;
+  };
+};
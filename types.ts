@@ -13,10 +13,39 @@ export interface Document {
   id: string;
   title: string;
   content: string;
-  type: 'text' | 'markdown' | 'code' | 'pdf' | 'docx' | 'html';
+  type: 'text' | 'markdown' | 'code' | 'pdf' | 'docx' | 'html' | 'web' | 'table' | 'image' | 'epub';
   category: string;
   tags: string[];
   createdAt: number;
+  // Page the content was imported from
+  sourceUrl?: string;
+  // Path of the uploaded file inside its dropped folder or ZIP archive, e.g. "handbook/hr/leave.md";
+  // also set for loose files whose title is not their file name (e-books)
+  sourcePath?: string;
+  // Author(s) from the file's own metadata
+  author?: string;
+  // JPEG data URL preview for image documents
+  thumbnail?: string;
+  // SHA-256 of the uploaded file (of the page text for web imports), so re-uploads are recognised
+  contentHash?: string;
+  // Starts at 1 and goes up each time a changed upload of the same file replaces the content
+  version?: number;
+  // When the current version was imported; absent until the first new version
+  updatedAt?: number;
+}
+
+// Content a document had before a newer upload of the same file replaced it
+export interface DocumentVersion {
+  // `${docId}-v${version}`
+  id: string;
+  docId: string;
+  version: number;
+  title: string;
+  content: string;
+  contentHash?: string;
+  // When this version was imported and when it was superseded
+  createdAt: number;
+  replacedAt: number;
 }
 
 export interface DocumentChunk {
@@ -24,7 +53,70 @@ export interface DocumentChunk {
   docId: string;
   docTitle: string;
   text: string;
-  embedding: number[];
+  embedding: Float32Array;
+  // Absent on chunks indexed before embeddings were pluggable (always Gemini text-embedding-004)
+  embeddingModel?: string;
+  embeddingDim?: number;
+  chunkerVersion?: string;
+  // Enclosing headings (or class/function for code), outermost first
+  headingPath?: string[];
+}
+
+export interface WebImportSettings {
+  // CORS proxy; "{url}" is replaced by the encoded page URL, otherwise the URL is appended
+  proxyUrl: string;
+  crawl: 'page' | 'links' | 'sitemap';
+  // Link hops from the start page when following links
+  maxDepth: number;
+  maxPages: number;
+}
+
+export interface ChunkerSettings {
+  chunkTokens: number;
+  overlapTokens: number;
+}
+
+// Per-document summary of what produced its stored chunks, kept in memory instead of the chunks themselves
+export interface DocumentIndexState {
+  chunkCount: number;
+  embeddingModels: string[];
+  chunkerVersions: string[];
+}
+
+export interface ReindexJob {
+  embeddingModel: string;
+  chunkerVersion: string;
+  pendingDocIds: string[];
+  total: number;
+}
+
+export type IngestionStatus = 'queued' | 'extracting' | 'embedding' | 'failed';
+
+// One file or page on its way into the Memory Bank; persisted so an import survives a reload
+export interface IngestionJob {
+  // Id of the document being built
+  id: string;
+  // Relative file path or page URL, shown in the queue and used for de-duplication
+  path: string;
+  status: IngestionStatus;
+  createdAt: number;
+  // Raw upload, kept until its text is extracted so an interrupted import can start over
+  file?: File;
+  useVision?: boolean;
+  category: string;
+  // SHA-256 of the uploaded file, checked against documents and other jobs before queueing
+  contentHash?: string;
+  // The upload replaces the content of the existing document with this job's id
+  isNewVersion?: boolean;
+  // The extracted document, set once the file has been read
+  doc?: Document;
+  // Chunks embedded so far; earlier runs' chunks are reused on resume
+  embedded: number;
+  totalChunks: number;
+  attempts: number;
+  error?: string;
+  // Live status line; not persisted
+  progress?: string;
 }
 
 export interface GroundingSource {
@@ -38,25 +130,234 @@ export interface AIResponse {
   groundingSources?: GroundingSource[];
 }
 
+export interface RetrievalCandidate {
+  chunkId: string;
+  docId: string;
+  docTitle: string;
+  preview: string;
+  vectorScore: number;
+  keywordScore: number;
+  hybridScore: number;
+  passedThreshold: boolean;
+  // 0-1 relevance from the reranker, when one ran
+  rerankScore?: number;
+  // Position in the context sent to the model; undefined when the chunk was dropped
+  rerankPosition?: number;
+  dropReason?: 'threshold' | 'rerank' | 'diversity' | 'budget';
+}
+
+// Empty lists mean "everything"; otherwise a document is searched if it matches any entry
+export interface RetrievalScope {
+  docIds: string[];
+  categories: string[];
+  tags: string[];
+}
+
+export interface RetrievalSettings {
+  // Chunks handed to the model
+  topK: number;
+  // Fused candidates considered for reranking and diversification
+  candidateCount: number;
+  // Minimum cosine similarity for a chunk without keyword hits
+  scoreThreshold: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  // 1 = pure relevance, 0 = pure diversity
+  mmrLambda: number;
+  reranker: RerankerId;
+  maxContextTokens: number;
+}
+
+export type RerankerId = 'none' | 'heuristic' | 'cross-encoder' | 'llm';
+
+export interface RerankRequest {
+  query: string;
+  // In fused order, best first
+  chunks: DocumentChunk[];
+  // Chat model for rerankers that prompt an LLM
+  chat?: ChatModelRef;
+  signal?: AbortSignal;
+}
+
+export interface Reranker {
+  id: Exclude<RerankerId, 'none'>;
+  label: string;
+  description: string;
+  // Whether snippet text is sent off the device
+  remote: boolean;
+  // One 0-1 relevance score per chunk, in input order
+  score: (request: RerankRequest) => Promise<number[]>;
+}
+
+// Follow-up questions condensed into self-contained search queries using the conversation so far
+export interface QueryRewrite {
+  standalone: string;
+  subQueries: string[];
+  ms: number;
+}
+
+export interface RetrievalTrace {
+  query: string;
+  rewrite?: QueryRewrite;
+  // Human-readable scope labels when retrieval was restricted to part of the Memory Bank
+  scope?: string[];
+  embeddingModel: string;
+  embeddingMs: number;
+  searchedChunks: number;
+  skippedChunks: number;
+  candidates: RetrievalCandidate[];
+  settings?: RetrievalSettings;
+  reranked: boolean;
+  reranker?: string;
+  rerankMs?: number;
+  totalMs: number;
+  error?: string;
+}
+
+export interface MessageCitation {
+  // 1-based snippet number the model cited as [n]
+  index: number;
+  chunkId: string;
+  docId: string;
+  docTitle: string;
+}
+
 export interface Message {
   id: string;
+  // Previous message in the conversation tree; null for the first turn
+  parentId?: string | null;
   role: 'user' | 'model';
   content: string;
   timestamp: number;
   sources?: string[];
   groundingSources?: GroundingSource[];
   isStreaming?: boolean;
+  // Set when the user stopped generation before the model finished
+  truncated?: boolean;
+  retrievalTrace?: RetrievalTrace;
+  citations?: MessageCitation[];
 }
 
 export interface ChatSession {
   id: string;
   title: string;
   messages: Message[];
+  // Leaf of the branch currently shown; defaults to the newest message
+  activeLeafId?: string | null;
+  summary?: ConversationSummary;
+  updatedAt: number;
+}
+
+// Rolling summary of the turns that no longer fit the model's context, oldest first
+export interface ConversationSummary {
+  text: string;
+  // Last message folded into the summary; it only applies to branches that pass through it
+  throughId: string;
   updatedAt: number;
 }
 
-export type AIProvider = 'gemini' | 'groq';
-export type GroqModel = 'llama-3.3-70b-versatile' | 'openai/gpt-oss-120b';
+export type AIProvider = string;
+
+export type ProviderAccent = 'blue' | 'orange' | 'purple' | 'emerald';
+
+export interface ProviderCapabilities {
+  webSearch: boolean;
+  vision: boolean;
+  jsonMode: boolean;
+}
+
+export interface ProviderModel {
+  id: string;
+  label: string;
+  badge: string;
+  accent?: ProviderAccent;
+  // Input + output tokens the model accepts
+  contextWindow?: number;
+}
+
+export type ProviderSettings = Record<string, string>;
+
+export interface ProviderSettingField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'url' | 'number';
+  placeholder?: string;
+}
+
+export interface EmbeddingConfig {
+  provider: string;
+  model: string;
+  settings: ProviderSettings;
+}
+
+export interface EmbeddingProvider {
+  id: string;
+  label: string;
+  description: string;
+  defaultModel: string;
+  allowCustomModel?: boolean;
+  settingFields?: ProviderSettingField[];
+  isConfigured: (settings: ProviderSettings) => boolean;
+  embed: (texts: string[], model: string, settings: ProviderSettings, signal?: AbortSignal) => Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  model: string;
+  dim: number;
+}
+
+// History, snippets and summary are already fitted to the model's context window by contextBuilder
+export interface ChatRequest {
+  query: string;
+  history: Message[];
+  summary?: string;
+  profile: UserProfile;
+  relevantChunks: DocumentChunk[];
+  allDocTitles: string[];
+  model: string;
+  settings: ProviderSettings;
+  useSearch: boolean;
+  signal?: AbortSignal;
+}
+
+// Single-turn, non-streaming prompt for auxiliary tasks such as query rewriting
+export interface CompletionRequest {
+  prompt: string;
+  model: string;
+  settings: ProviderSettings;
+  signal?: AbortSignal;
+  // Reply budget where the provider caps it; reasoning models spend part of it before any visible output
+  maxTokens?: number;
+}
+
+export interface ChatModelRef {
+  provider: ChatProvider;
+  model: string;
+  settings: ProviderSettings;
+}
+
+export interface ChatStreamChunk {
+  text: string;
+  sources: string[];
+  groundingSources?: GroundingSource[];
+}
+
+export interface ChatProvider {
+  id: AIProvider;
+  label: string;
+  accent: ProviderAccent;
+  capabilities: ProviderCapabilities;
+  models: ProviderModel[];
+  defaultModel: string;
+  // Used for models without a known window of their own
+  contextWindow: number;
+  allowCustomModel?: boolean;
+  settingFields?: ProviderSettingField[];
+  isConfigured: (settings: ProviderSettings) => boolean;
+  stream: (request: ChatRequest) => AsyncGenerator<ChatStreamChunk>;
+  complete: (request: CompletionRequest) => Promise<string>;
+}
 
 export interface AppState {
   profile: UserProfile;
@@ -64,7 +365,8 @@ export interface AppState {
   messages: Message[];
   isSearching: boolean;
   provider: AIProvider;
-  groqModel: GroqModel;
+  providerModels: Record<AIProvider, string>;
+  providerSettings: Record<AIProvider, ProviderSettings>;
   sessions: ChatSession[];
   currentChatId: string | null;
   useWebSearch: boolean;
@@ -15,6 +15,10 @@ export default defineConfig(({ mode }) => {
       'process.env.API_KEY': JSON.stringify(env.API_KEY || env.GEMINI_API_KEY),
       'process.env.GROQ_API_KEY': JSON.stringify(env.GROQ_API_KEY),
     },
+    worker: {
+      // The local embedding worker imports code-split WASM runtimes, which IIFE workers cannot hold
+      format: 'es'
+    },
     server: {
       host: true,
       port: 3000
@@ -0,0 +1,30 @@
+
+import { pipeline, FeatureExtractionPipeline } from '@huggingface/transformers';
+
+// Runs a small sentence-transformer in-browser (WASM) so indexing works without any API key.
+// Protocol: { id, texts, model } -> { id, vectors } | { id, error }
+
+// Narrowed signature: the generic overload set is too large for the compiler to resolve
+const createExtractor = pipeline as (task: 'feature-extraction', model: string) => Promise<FeatureExtractionPipeline>;
+
+const extractors = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+const getExtractor = (model: string): Promise<FeatureExtractionPipeline> => {
+  if (!extractors.has(model)) {
+    extractors.set(model, createExtractor('feature-extraction', model));
+  }
+  return extractors.get(model)!;
+};
+
+self.onmessage = async (event: MessageEvent<{ id: number; texts: string[]; model: string }>) => {
+  const { id, texts, model } = event.data;
+  try {
+    const extractor = await getExtractor(model);
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    self.postMessage({ id, vectors: output.tolist() });
+  } catch (error: any) {
+    // Drop the cached pipeline so a failed model download can be retried
+    extractors.delete(model);
+    self.postMessage({ id, error: error?.message || 'Local embedding failed' });
+  }
+};
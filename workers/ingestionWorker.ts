@@ -0,0 +1,91 @@
+
+import { ChunkerSettings, DocumentChunk, EmbeddingConfig, EmbeddingResult } from '../types';
+import { embeddingService } from '../services/embeddingService';
+import { indexingService } from '../services/indexingService';
+import { storageService } from '../services/storageService';
+
+// Chunks and embeds extracted documents off the main thread. Every embedded batch is written to
+// IndexedDB before the next request, so a reload or a failed batch only costs the batch in flight.
+// Protocol:
+//   { jobId, config, chunkerSettings }                  -> reads the job's document from IndexedDB
+//   progress                                            -> { jobId, type: 'progress', embedded, total, note? }
+//   finished (document and chunks saved, job deleted)   -> { jobId, type: 'done', doc, chunks }
+//   any failure (embedded chunks are kept for a retry)  -> { jobId, type: 'failed', error }
+
+const INGEST_BATCH_SIZE = 32;
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+interface IngestRequest {
+  jobId: string;
+  config: EmbeddingConfig;
+  chunkerSettings: ChunkerSettings;
+}
+
+// Rate limits, overloaded servers and dropped connections clear up on their own; bad keys do not
+const isTransient = (error: any): boolean => {
+  const status = Number(error?.status);
+  if (status === 429 || status === 408 || status >= 500) return true;
+  return /rate.?limit|quota|resource.?exhausted|too many requests|overloaded|unavailable|failed to fetch|network/i.test(error?.message || '');
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, so several tabs or a shared key do not retry in lockstep
+const withBackoff = async <T>(run: () => Promise<T>, onWait: (seconds: number, attempt: number) => void): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isTransient(error)) throw error;
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      onWait(Math.round(delay / 1000), attempt);
+      await sleep(delay);
+    }
+  }
+};
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+  const { jobId, config, chunkerSettings } = event.data;
+  try {
+    const job = await storageService.getIngestionJob(jobId);
+    if (!job?.doc) throw new Error('The import was removed or its file was never read.');
+    const doc = job.doc;
+
+    // A new version only re-embeds the passages that changed since the one being replaced
+    const reuse = [
+      ...await storageService.getIngestionChunks(doc.id),
+      ...await storageService.getDocumentChunks(doc.id)
+    ];
+    let progress = { embedded: 0, total: 0 };
+    const chunks: DocumentChunk[] = await indexingService.buildChunks(
+      doc,
+      config,
+      chunkerSettings,
+      (embedded, total) => {
+        progress = { embedded, total };
+        self.postMessage({ jobId, type: 'progress', embedded, total });
+      },
+      {
+        reuse,
+        batchSize: INGEST_BATCH_SIZE,
+        onBatch: batch => storageService.saveIngestionChunks(batch),
+        embed: (texts: string[]): Promise<EmbeddingResult> => withBackoff(
+          () => embeddingService.embed(texts, config),
+          (seconds, attempt) => self.postMessage({
+            jobId,
+            type: 'progress',
+            ...progress,
+            note: `Rate limited, retrying in ${seconds}s (${attempt}/${MAX_ATTEMPTS - 1})`
+          })
+        )
+      }
+    );
+
+    await storageService.completeIngestion(doc, chunks);
+    self.postMessage({ jobId, type: 'done', doc, chunks });
+  } catch (error: any) {
+    self.postMessage({ jobId, type: 'failed', error: error?.message || 'Indexing failed' });
+  }
+};
@@ -0,0 +1,42 @@
+
+import { AutoModelForSequenceClassification, AutoTokenizer, PreTrainedModel, PreTrainedTokenizer } from '@huggingface/transformers';
+
+// Scores (query, passage) pairs with a small cross-encoder in-browser (WASM), so reranking needs no API.
+// Protocol: { id, query, passages, model } -> { id, scores } | { id, error }
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+const encoders = new Map<string, Promise<CrossEncoder>>();
+
+const getEncoder = (model: string): Promise<CrossEncoder> => {
+  if (!encoders.has(model)) {
+    encoders.set(model, Promise.all([
+      AutoTokenizer.from_pretrained(model),
+      AutoModelForSequenceClassification.from_pretrained(model)
+    ]).then(([tokenizer, classifier]) => ({ tokenizer, model: classifier })));
+  }
+  return encoders.get(model)!;
+};
+
+self.onmessage = async (event: MessageEvent<{ id: number; query: string; passages: string[]; model: string }>) => {
+  const { id, query, passages, model } = event.data;
+  try {
+    const encoder = await getEncoder(model);
+    const inputs = encoder.tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true
+    });
+    const { logits } = await encoder.model(inputs);
+    // One relevance logit per pair; squashed so scores are comparable across queries
+    const scores = (logits.sigmoid().tolist() as number[][]).map(row => row[0]);
+    self.postMessage({ id, scores });
+  } catch (error: any) {
+    // Drop the cached model so a failed download can be retried
+    encoders.delete(model);
+    self.postMessage({ id, error: error?.message || 'Local reranking failed' });
+  }
+};
@@ -0,0 +1,113 @@
+
+import { createHnswIndex, HnswIndex } from '../services/hnswIndex';
+import { storageService } from '../services/storageService';
+
+// Owns the approximate nearest-neighbour graphs so neither the vectors nor the search block the UI.
+// One graph per embedding model: vectors from different models are not comparable.
+// Protocol:
+//   { type: 'init', legacyModelKey }                       -> (no reply; starts loading from IndexedDB)
+//   { id, type: 'upsert', docId, entries }                 -> { id, result: null }
+//   { id, type: 'remove', docId }                          -> { id, result: null }
+//   { id, type: 'search', vector, modelKey, k, docIds? }   -> { id, result: { hits, searched, total } }
+//   any failure                                            -> { id, error }
+
+export interface VectorIndexEntry {
+  chunkId: string;
+  modelKey: string;
+  vector: Float32Array;
+}
+
+type VectorIndexRequest =
+  | { type: 'init'; legacyModelKey: string }
+  | { id: number; type: 'upsert'; docId: string; entries: VectorIndexEntry[] }
+  | { id: number; type: 'remove'; docId: string }
+  | { id: number; type: 'search'; vector: Float32Array; modelKey: string; k: number; docIds?: string[] };
+
+const graphs = new Map<string, HnswIndex>();
+// Which graph each chunk of a document went into, so a document can be dropped without a scan
+const docEntries = new Map<string, { chunkId: string; modelKey: string }[]>();
+// Below this many scoped chunks an exact scan beats a filtered graph walk
+const EXACT_SCAN_LIMIT = 5000;
+
+let legacyModelKey = '';
+let loading: Promise<void> | null = null;
+
+const addEntry = (docId: string, entry: VectorIndexEntry) => {
+  if (!graphs.has(entry.modelKey)) graphs.set(entry.modelKey, createHnswIndex());
+  graphs.get(entry.modelKey)!.add(entry.chunkId, entry.vector);
+
+  const entries = docEntries.get(docId) || [];
+  entries.push({ chunkId: entry.chunkId, modelKey: entry.modelKey });
+  docEntries.set(docId, entries);
+};
+
+const removeDoc = (docId: string) => {
+  (docEntries.get(docId) || []).forEach(({ chunkId, modelKey }) => graphs.get(modelKey)?.remove(chunkId));
+  docEntries.delete(docId);
+};
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loading) {
+    graphs.clear();
+    docEntries.clear();
+    loading = storageService.iterateChunks(chunk => {
+      addEntry(chunk.docId, {
+        chunkId: chunk.id,
+        modelKey: chunk.embeddingModel || legacyModelKey,
+        vector: chunk.embedding
+      });
+    }).catch(error => {
+      // Retried by the next request
+      loading = null;
+      throw error;
+    });
+  }
+  return loading;
+};
+
+const search = (vector: Float32Array, modelKey: string, k: number, docIds?: string[]) => {
+  const graph = graphs.get(modelKey);
+
+  if (!docIds) {
+    let total = 0;
+    graphs.forEach(g => { total += g.size(); });
+    return { hits: graph ? graph.search(vector, k) : [], searched: graph ? graph.size() : 0, total };
+  }
+
+  // Scoped: only the chosen documents count towards searched/skipped
+  const scoped = docIds.flatMap(docId => docEntries.get(docId) || []);
+  const allowed = new Set(scoped.filter(e => e.modelKey === modelKey).map(e => e.chunkId));
+  const hits = !graph || allowed.size === 0 ? []
+    : allowed.size <= EXACT_SCAN_LIMIT ? graph.scan(vector, allowed, k)
+    : graph.search(vector, k, id => allowed.has(id));
+
+  return { hits, searched: allowed.size, total: scoped.length };
+};
+
+self.onmessage = async (event: MessageEvent<VectorIndexRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    legacyModelKey = request.legacyModelKey;
+    ensureLoaded().catch(error => console.error("Vector index load failed:", error));
+    return;
+  }
+
+  try {
+    // Writes made while loading are replayed afterwards; upserts replace, so overlap is harmless
+    await ensureLoaded();
+
+    if (request.type === 'upsert') {
+      removeDoc(request.docId);
+      request.entries.forEach(entry => addEntry(request.docId, entry));
+      self.postMessage({ id: request.id, result: null });
+    } else if (request.type === 'remove') {
+      removeDoc(request.docId);
+      self.postMessage({ id: request.id, result: null });
+    } else {
+      self.postMessage({ id: request.id, result: search(request.vector, request.modelKey, request.k, request.docIds) });
+    }
+  } catch (error: any) {
+    self.postMessage({ id: request.id, error: error?.message || 'Vector index failed' });
+  }
+};